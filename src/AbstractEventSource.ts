@@ -1,41 +1,113 @@
-import { isOnceEventHandler } from "./once";
+/// <reference lib="es2018.asynciterable" />
+
+import { asOneShot, isOnceEventHandler } from "./once";
+import { isPrioritizedEventHandler } from "./withPriority";
+import {
+    isOperatorEventHandler,
+    subscribeThroughOperator,
+} from "./eventOperator";
+import { subscribeWithSignal, getAbortReason } from "./abortSignal";
+import { toSubscriptionCanceller } from "./disposable";
+import { withTeardown } from "./teardown";
+import { TimeoutError, EventRejectionError } from "./errors";
+import { EventIterator } from "./EventIterator";
+import { setTimer, clearTimer } from "./globals";
 import {
     EventsConstraint,
     EventSource,
     EventNames,
     EventHandler,
     AnyEventHandler,
+    AnyEventHandlerOf,
     EventHandlers,
+    CancelFunction,
     SubscriptionCanceller,
+    SubscriptionOptions,
+    WaitOptions,
+    IterateOptions,
 } from "./types.private";
 
 /**
  * A Partial implementation of the {@link EventSource} interface.
- * Extend this class and implement the {@link EventSource#on} method to easily
- * fully implement the EventSource interface.
+ * Extend this class and implement the {@link #addHandler} and
+ * {@link #addAnyHandler} methods to easily fully implement the EventSource
+ * interface. Support for {@link SubscriptionOptions#signal} is provided by
+ * this class, as is making the returned {@link SubscriptionCanceller}s
+ * disposable.
  */
 export abstract class AbstractEventSource<
     Events extends EventsConstraint<Events>
 > implements EventSource<Events> {
+    /**
+     * Callbacks that end each pending wait or iteration (or stop listening to
+     * the AbortSignal of a subscription), when called with the reason passed
+     * to {@link #closeWaits}.
+     */
+    private readonly waitClosers: ((reason: unknown) => void)[] = [];
+
+    /**
+     * Wrapper around the reason passed to {@link #closeWaits}, or undefined
+     * if it has not been called.
+     */
+    private closedReason: { reason: unknown } | undefined;
+
     /**
      * @inheritdoc
      */
-    public abstract on<EventName extends EventNames<Events>>(
+    public on<EventName extends EventNames<Events>>(
         eventName: EventName,
-        handler: EventHandler<Events[EventName]>
-    ): SubscriptionCanceller;
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller {
+        return toSubscriptionCanceller(
+            subscribeWithSignal(
+                options && options.signal,
+                () => this.addHandler(eventName, handler, options),
+                (stopListening) => this.addWaitCloser(stopListening)
+            )
+        );
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public onAny(
+        handler: AnyEventHandlerOf<Events>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller {
+        return toSubscriptionCanceller(
+            subscribeWithSignal(
+                options && options.signal,
+                () => this.addAnyHandler(handler, options),
+                (stopListening) => this.addWaitCloser(stopListening)
+            )
+        );
+    }
 
     /**
      * @inheritdoc
      */
     public once<EventName extends EventNames<Events>>(
         eventName: EventName,
-        handler: EventHandler<Events[EventName]>
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
     ): SubscriptionCanceller {
+        let isCalled = false;
+        let cancel: SubscriptionCanceller | undefined;
+
         // Wrap the handler in a function that will self-cancel when it is called
         // tslint:disable:only-arrow-functions
         const wrappedHandler = function (): void | Promise<void> {
-            cancel();
+            if (isCalled) {
+                return;
+            }
+
+            isCalled = true;
+
+            if (cancel) {
+                cancel();
+            }
+
             return handler.apply(
                 undefined,
                 (arguments as unknown) as Parameters<typeof handler>
@@ -43,7 +115,14 @@ export abstract class AbstractEventSource<
         };
 
         // Subscribe to the wrapped handler
-        const cancel = this.on(eventName, wrappedHandler);
+        cancel = this.on(eventName, asOneShot(wrappedHandler), options);
+
+        // The handler may have been called while subscribing (e.g., replay
+        // of a previous emit by an EventEmitter).
+        if (isCalled) {
+            cancel();
+        }
+
         return cancel;
     }
 
@@ -51,30 +130,347 @@ export abstract class AbstractEventSource<
      * @inheritdoc
      */
     public onceAsPromise<EventName extends EventNames<Events>>(
-        eventName: EventName
+        eventName: EventName,
+        options?: WaitOptions<Events>
     ): Promise<Parameters<EventHandler<Events[EventName]>>> {
-        return new Promise<Parameters<EventHandler<Events[EventName]>>>(
-            (resolve) => {
-                this.once(eventName, function (): void {
-                    resolve.call(
-                        undefined,
+        return this.wait(eventName, options, (resolve) =>
+            this.on(
+                eventName,
+                asOneShot(function (): void {
+                    resolve(
                         (arguments as unknown) as Parameters<
                             EventHandler<Events[EventName]>
                         >
                     );
-                });
-            }
+                })
+            )
         );
     }
 
+    /**
+     * @inheritdoc
+     */
+    public waitFor<
+        EventName extends EventNames<Events>,
+        Narrowed extends Parameters<EventHandler<Events[EventName]>>
+    >(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => args is Narrowed,
+        options?: WaitOptions<Events>
+    ): Promise<Narrowed>;
+    public waitFor<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => boolean,
+        options?: WaitOptions<Events>
+    ): Promise<Parameters<EventHandler<Events[EventName]>>>;
+    public waitFor<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => boolean,
+        options?: WaitOptions<Events>
+    ): Promise<Parameters<EventHandler<Events[EventName]>>> {
+        return this.wait(eventName, options, (resolve, reject) =>
+            this.on(
+                eventName,
+                asOneShot(function (): void {
+                    const args = Array.prototype.slice.call(
+                        arguments
+                    ) as Parameters<EventHandler<Events[EventName]>>;
+
+                    // An error thrown by the predicate fails the wait, rather
+                    // than being treated as an event handler error.
+                    let isMatch: boolean;
+
+                    try {
+                        isMatch = predicate(args);
+                    } catch (error) {
+                        reject(error);
+                        return;
+                    }
+
+                    if (isMatch) {
+                        resolve(args);
+                    }
+                })
+            )
+        );
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public iterate<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        options: IterateOptions<Events> = {}
+    ): AsyncIterableIterator<Parameters<EventHandler<Events[EventName]>>> {
+        const {
+            bufferSize = Infinity,
+            overflow = "throw",
+            endOn,
+            signal,
+        } = options;
+        const iterator = new EventIterator<
+            Parameters<EventHandler<Events[EventName]>>
+        >(eventName, bufferSize, overflow);
+
+        if (signal && signal.aborted) {
+            iterator.fail(getAbortReason(signal));
+            return iterator;
+        }
+
+        if (this.closedReason) {
+            iterator.end();
+            return iterator;
+        }
+
+        iterator.addCanceller(
+            this.on(eventName, function (): void {
+                iterator.push(
+                    Array.prototype.slice.call(arguments) as Parameters<
+                        EventHandler<Events[EventName]>
+                    >
+                );
+            })
+        );
+
+        if (endOn !== undefined) {
+            iterator.addCanceller(this.on(endOn, () => iterator.end()));
+        }
+
+        iterator.addCanceller(this.addWaitCloser(() => iterator.end()));
+
+        if (signal) {
+            const onAbort = (): void => {
+                iterator.fail(getAbortReason(signal));
+            };
+
+            signal.addEventListener("abort", onAbort);
+            iterator.addCanceller(() => {
+                signal.removeEventListener("abort", onAbort);
+            });
+        }
+
+        return iterator;
+    }
+
     /**
      * @inheritdoc
      */
     public subscribe(
-        handlers: Partial<EventHandlers<Events>>
+        handlers: Partial<EventHandlers<Events>>,
+        options?: SubscriptionOptions
     ): SubscriptionCanceller {
+        // A single abort listener cancels all of the individual subscriptions
+        return toSubscriptionCanceller(
+            subscribeWithSignal(
+                options && options.signal,
+                () => this.subscribeAll(handlers, options && options.priority),
+                (stopListening) => this.addWaitCloser(stopListening)
+            )
+        );
+    }
+
+    /**
+     * Subscribes to a single event.
+     * This is called by {@link #on}, {@link #once} and {@link #subscribe},
+     * which handle {@link SubscriptionOptions#signal} before calling this method.
+     * @param eventName - A valid event name for the Events interface.
+     * @param handler - A handler function for the specified event.
+     * @param options - Options for the subscription.
+     * @returns A callback function that, when called, will cancel this subscription.
+     */
+    protected abstract addHandler<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): CancelFunction;
+
+    /**
+     * Subscribes to all events.
+     * This is called by {@link #onAny}, which handles
+     * {@link SubscriptionOptions#signal} before calling this method.
+     * @param handler - A handler function for all events.
+     * @param options - Options for the subscription.
+     * @returns A callback function that, when called, will cancel this subscription.
+     */
+    protected abstract addAnyHandler(
+        handler: AnyEventHandlerOf<Events>,
+        options?: SubscriptionOptions
+    ): CancelFunction;
+
+    /**
+     * Ends all pending and future waits and iterations of this event source.
+     * Waits (e.g., {@link #onceAsPromise}) are rejected with the specified
+     * reason, and iterations (see {@link #iterate}) end.
+     * Subscriptions also stop listening to their AbortSignals (see
+     * {@link SubscriptionOptions#signal}), because closing waits means that
+     * the subscriptions themselves are cancelled (e.g., by disposing).
+     * Only the first call has any effect.
+     * @param reason - The value that waits are rejected with.
+     */
+    protected closeWaits(reason: unknown): void {
+        if (this.closedReason) {
+            return;
+        }
+
+        this.closedReason = { reason };
+        this.waitClosers.splice(0).forEach((close) => close(reason));
+    }
+
+    /**
+     * Registers a callback to be called by {@link #closeWaits}.
+     * The callback is called immediately if waits were already closed (e.g.,
+     * while subscribing to the event being waited for).
+     * @param close - Ends a pending wait or iteration, or stops listening to
+     *        the AbortSignal of a subscription.
+     * @returns A callback function that unregisters `close`.
+     */
+    private addWaitCloser(close: (reason: unknown) => void): CancelFunction {
+        if (this.closedReason) {
+            close(this.closedReason.reason);
+            return () => {
+                // Nothing to unregister
+            };
+        }
+
+        this.waitClosers.push(close);
+
+        return () => {
+            const index = this.waitClosers.indexOf(close);
+
+            if (index !== -1) {
+                this.waitClosers.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Common implementation of waiting for an event, with support for
+     * all {@link WaitOptions}.
+     * @param eventName - The name of the event being waited for.
+     * @param options - Options for the wait.
+     * @param subscribeToEvent - Subscribes to the event being waited for, and
+     *        calls `resolve` when the wait is complete (or `reject` if it
+     *        fails).
+     * @returns A Promise that is resolved via `subscribeToEvent`, or rejected
+     *          as specified by `options`.
+     */
+    private wait<Result>(
+        eventName: EventNames<Events>,
+        options: WaitOptions<Events> = {},
+        subscribeToEvent: (
+            resolve: (result: Result) => void,
+            reject: (error: unknown) => void
+        ) => CancelFunction
+    ): Promise<Result> {
+        const { signal, timeout, rejectOn } = options;
+
+        return new Promise<Result>((resolve, reject) => {
+            if (signal && signal.aborted) {
+                reject(getAbortReason(signal));
+                return;
+            }
+
+            if (this.closedReason) {
+                reject(this.closedReason.reason);
+                return;
+            }
+
+            let isSettled = false;
+            const cancelFunctions: CancelFunction[] = [];
+
+            // Ends the wait, cleaning up everything that could end it
+            const settle = (): boolean => {
+                if (isSettled) {
+                    return false;
+                }
+
+                isSettled = true;
+                cancelFunctions.forEach((cancel) => cancel());
+                return true;
+            };
+
+            cancelFunctions.push(
+                subscribeToEvent(
+                    (result) => {
+                        if (settle()) {
+                            resolve(result);
+                        }
+                    },
+                    (error) => {
+                        if (settle()) {
+                            reject(error);
+                        }
+                    }
+                )
+            );
+
+            cancelFunctions.push(
+                this.addWaitCloser((reason) => {
+                    if (settle()) {
+                        reject(reason);
+                    }
+                })
+            );
+
+            if (rejectOn !== undefined) {
+                cancelFunctions.push(
+                    this.on(rejectOn, function (): void {
+                        if (settle()) {
+                            reject(
+                                new EventRejectionError(
+                                    rejectOn,
+                                    Array.prototype.slice.call(arguments)
+                                )
+                            );
+                        }
+                    })
+                );
+            }
+
+            if (signal) {
+                const onAbort = (): void => {
+                    if (settle()) {
+                        reject(getAbortReason(signal));
+                    }
+                };
+
+                signal.addEventListener("abort", onAbort);
+                cancelFunctions.push(() => {
+                    signal.removeEventListener("abort", onAbort);
+                });
+            }
+
+            if (timeout !== undefined) {
+                const timer = setTimer(() => {
+                    if (settle()) {
+                        reject(new TimeoutError(eventName, timeout));
+                    }
+                }, timeout);
+
+                cancelFunctions.push(() => {
+                    clearTimer(timer);
+                });
+            }
+
+            // The wait may have ended synchronously while subscribing
+            if (isSettled) {
+                cancelFunctions.forEach((cancel) => cancel());
+            }
+        });
+    }
+
+    private subscribeAll(
+        handlers: Partial<EventHandlers<Events>>,
+        defaultPriority: number | undefined
+    ): CancelFunction {
         // List of cancel functions for each individual event subscription
-        const cancelFunctions: SubscriptionCanceller[] = [];
+        const cancelFunctions: CancelFunction[] = [];
 
         // Get all property names from the handlers object, including
         // property symbols (for unique symbol event names).
@@ -93,21 +489,51 @@ export abstract class AbstractEventSource<
                 continue;
             }
 
-            const handler = handlers[eventName as keyof typeof handlers];
+            let handler = handlers[eventName as keyof typeof handlers];
 
             if (!handler) {
                 continue;
             }
 
-            if (isOnceEventHandler(handler)) {
+            const options: SubscriptionOptions = { priority: defaultPriority };
+
+            if (isPrioritizedEventHandler(handler)) {
+                options.priority = handler.priority;
+                handler = handler.handler;
+            }
+
+            if (isOperatorEventHandler(handler)) {
+                const { operator, handler: operatorHandler } = handler;
+
+                cancelFunctions.push(
+                    subscribeThroughOperator(
+                        operator,
+                        (args) => operatorHandler.apply(undefined, args),
+                        (next, cancel) =>
+                            this.on(
+                                eventName as EventNames<Events>,
+                                withTeardown(
+                                    (...args: unknown[]) => next(args),
+                                    cancel
+                                ),
+                                options
+                            )
+                    )
+                );
+            } else if (isOnceEventHandler(handler)) {
                 cancelFunctions.push(
-                    this.once(eventName as EventNames<Events>, handler.handler)
+                    this.once(
+                        eventName as EventNames<Events>,
+                        handler.handler,
+                        options
+                    )
                 );
             } else {
                 cancelFunctions.push(
                     this.on(
                         eventName as EventNames<Events>,
-                        handler as AnyEventHandler
+                        handler as AnyEventHandler,
+                        options
                     )
                 );
             }
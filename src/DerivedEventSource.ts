@@ -0,0 +1,195 @@
+import { AbstractEventSource } from "./AbstractEventSource";
+import { subscribeThroughOperator } from "./eventOperator";
+import { DisposedError } from "./errors";
+import { asOneShot, isOneShot } from "./once";
+import { getTeardown, withTeardown } from "./teardown";
+import {
+    EventsConstraint,
+    EventSource,
+    EventNames,
+    EventHandler,
+    AnyEventHandler,
+    AnyEventHandlerOf,
+    EventOperator,
+    CancelFunction,
+    SubscriptionOptions,
+} from "./types.private";
+
+/**
+ * Signature of a handler for all events, with loosely typed parameters.
+ */
+type LooseAnyEventHandler = (
+    eventName: string | symbol,
+    args: unknown[]
+) => void | Promise<void>;
+
+/**
+ * An {@link EventSource} that exposes the events of another (upstream)
+ * EventSource, with a single event transformed by an {@link EventOperator}.
+ *
+ * Every downstream subscription creates its own upstream subscription, so
+ * the upstream EventSource is only subscribed to while there are downstream
+ * subscribers, and operator state (e.g., counts) is per subscription.
+ *
+ * When the upstream EventSource is disposed (see {@link EventEmitter#dispose}),
+ * pending and future waits of this EventSource are rejected with a
+ * {@link DisposedError}, and its iterations end.
+ * @typeParam Events - The Events interface of this EventSource.
+ * @typeParam UpstreamEvents - The Events interface of the upstream EventSource.
+ */
+export class DerivedEventSource<
+    Events extends EventsConstraint<Events>,
+    UpstreamEvents extends EventsConstraint<UpstreamEvents>
+> extends AbstractEventSource<Events> {
+    private readonly upstream: EventSource<UpstreamEvents>;
+    private readonly eventName: EventNames<UpstreamEvents>;
+    private readonly operator: EventOperator;
+
+    /**
+     * @param upstream - The EventSource whose events are exposed.
+     * @param eventName - The name of the event to transform.
+     * @param operator - Transforms the event.
+     */
+    public constructor(
+        upstream: EventSource<UpstreamEvents>,
+        eventName: EventNames<UpstreamEvents>,
+        operator: EventOperator
+    ) {
+        super();
+        this.upstream = upstream;
+        this.eventName = eventName;
+        this.operator = operator;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected addHandler<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): CancelFunction {
+        // Both Events interfaces have the same event names
+        const upstreamEventName = (eventName as unknown) as EventNames<UpstreamEvents>;
+
+        // Other events are passed through untouched
+        if (upstreamEventName !== this.eventName) {
+            const anyHandler = handler as AnyEventHandler;
+
+            return this.upstream.on(
+                upstreamEventName,
+                this.withUpstreamTeardown(
+                    (...args: unknown[]) => anyHandler(...args),
+                    anyHandler
+                ),
+                options
+            );
+        }
+
+        return subscribeThroughOperator(
+            this.operator,
+            (args) =>
+                handler.apply(undefined, args as Parameters<typeof handler>),
+            (next, cancel) =>
+                this.upstream.on(
+                    upstreamEventName,
+                    this.withUpstreamTeardown(
+                        (...args: unknown[]) => next(args),
+                        handler as AnyEventHandler,
+                        cancel
+                    ),
+                    options
+                )
+        );
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected addAnyHandler(
+        handler: AnyEventHandlerOf<Events>,
+        options?: SubscriptionOptions
+    ): CancelFunction {
+        const looseHandler = handler as LooseAnyEventHandler;
+        let next: ((args: unknown[]) => void | Promise<void>) | undefined;
+
+        // Completing the operator (e.g., by take()) only stops delivery of
+        // the transformed event, so the operator does not own the upstream
+        // subscription, which keeps passing through all other events.
+        const cancelOperator = subscribeThroughOperator(
+            this.operator,
+            (args) => looseHandler(this.eventName, args),
+            (operatorNext) => {
+                next = operatorNext;
+                return () => {
+                    next = undefined;
+                };
+            }
+        );
+
+        const upstreamHandler: LooseAnyEventHandler = (eventName, args) => {
+            if (eventName !== this.eventName) {
+                return looseHandler(eventName, args);
+            }
+
+            if (next) {
+                return next(args);
+            }
+        };
+
+        const cancelUpstream = this.upstream.onAny(
+            this.withUpstreamTeardown(
+                upstreamHandler,
+                looseHandler,
+                cancelOperator
+            ) as AnyEventHandlerOf<UpstreamEvents>,
+            options
+        );
+
+        return () => {
+            cancelOperator();
+            cancelUpstream();
+        };
+    }
+
+    /**
+     * Attaches a teardown to a handler subscribed to the upstream
+     * EventSource (see {@link withTeardown}). Upstream subscriptions are
+     * only torn down when the upstream EventSource is disposed, so the
+     * teardown also ends all waits and iterations of this EventSource, and
+     * tears down whatever depends on the downstream subscription.
+     *
+     * The upstream handler is also marked as one-shot (see
+     * {@link asOneShot}) if the downstream handler is, so that it receives
+     * the same replayed emits as it would from the upstream EventSource.
+     * @param upstreamHandler - The handler subscribed to the upstream
+     *        EventSource.
+     * @param handler - The handler subscribed to this EventSource.
+     * @param cancel - Cancels the downstream subscription, if it is more than
+     *        the upstream subscription (e.g., it disposes an operator).
+     * @returns The upstream handler.
+     */
+    private withUpstreamTeardown<Handler extends (...args: any[]) => unknown>(
+        upstreamHandler: Handler,
+        handler: (...args: any[]) => unknown,
+        cancel?: CancelFunction
+    ): Handler {
+        const teardown = getTeardown(handler);
+
+        if (isOneShot(handler)) {
+            asOneShot(upstreamHandler);
+        }
+
+        return withTeardown(upstreamHandler, () => {
+            this.closeWaits(new DisposedError());
+
+            if (cancel) {
+                cancel();
+            }
+
+            if (teardown) {
+                teardown();
+            }
+        });
+    }
+}
@@ -0,0 +1,171 @@
+import { EventEmitter } from "./EventEmitter";
+import { now } from "./globals";
+import { SubscriptionCanceller } from "./types.private";
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number): void;
+    bar(): void;
+}
+
+// Number of subscriptions used by the baseline runs of each benchmark. Kept
+// small, so that quadratic implementations fail in a reasonable time.
+const COUNT = 2000;
+
+// Factor by which the number of subscriptions is scaled up, relative to the
+// baseline runs
+const SCALE = 16;
+
+// Limit for how much the time per subscription may grow in the scaled up
+// runs. It stays about the same for linear implementations, while it grows
+// about SCALE times for quadratic implementations.
+const MAX_GROWTH = SCALE / 2;
+
+// Minimum total time of the runs of each size, so that timer precision and
+// garbage collection pauses do not dominate the measurement
+const MIN_DURATION_MS = 100;
+
+/**
+ * Measures how long a function takes to run.
+ * @param fn - The function to measure.
+ * @returns The elapsed time, in milliseconds.
+ */
+function measure(fn: () => void): number {
+    const start = now();
+    fn();
+    return now() - start;
+}
+
+/**
+ * Measures how the time per subscription of a benchmark grows with the
+ * number of subscriptions. Comparing against baseline runs on the same
+ * machine, rather than against a fixed time limit, keeps the benchmarks
+ * reliable on slow machines and with coverage instrumentation.
+ * @param benchmark - Runs the benchmark with a number of subscriptions, and
+ *        returns the elapsed time of the measured part, in milliseconds.
+ * @returns The time per subscription with `SCALE * COUNT` subscriptions,
+ *          divided by the time per subscription with `COUNT` subscriptions.
+ */
+function measureGrowth(benchmark: (count: number) => number): number {
+    const timePerSubscription = (count: number): number => {
+        let elapsed = 0;
+        let runs = 0;
+        do {
+            elapsed += benchmark(count);
+            ++runs;
+        } while (elapsed < MIN_DURATION_MS);
+        return elapsed / (runs * count);
+    };
+
+    // Warm up, so that the baseline does not include JIT compilation
+    benchmark(COUNT);
+
+    const baseline = timePerSubscription(COUNT);
+    const scaled = timePerSubscription(COUNT * SCALE);
+    return scaled / baseline;
+}
+
+/**
+ * Creates a deterministic permutation of the indexes of an array, so that
+ * subscriptions are not cancelled in the order they were subscribed.
+ * @param length - The length of the array.
+ * @returns A shuffled array of all indexes.
+ */
+function shuffledIndexes(length: number): number[] {
+    const indexes: number[] = [];
+    // 7919 is prime, so the stride visits every index exactly once
+    for (let i = 0; i < length; ++i) {
+        indexes.push((i * 7919) % length);
+    }
+    return indexes;
+}
+
+describe("Benchmarks", () => {
+    test("Cancelling many subscriptions to one event", () => {
+        const growth = measureGrowth((count) => {
+            const emitter = new EventEmitter<Events>();
+            const cancellers: SubscriptionCanceller[] = [];
+            for (let i = 0; i < count; ++i) {
+                cancellers.push(emitter.on("foo", () => undefined));
+            }
+
+            const elapsed = measure(() => {
+                for (const index of shuffledIndexes(count)) {
+                    cancellers[index]();
+                }
+            });
+
+            expect(emitter.hasListeners()).toBe(false);
+            return elapsed;
+        });
+
+        expect(growth).toBeLessThan(MAX_GROWTH);
+    });
+
+    test("Cancelling many subscriptions to all events", () => {
+        const growth = measureGrowth((count) => {
+            const emitter = new EventEmitter<Events>();
+            const cancellers: SubscriptionCanceller[] = [];
+            for (let i = 0; i < count; ++i) {
+                cancellers.push(emitter.onAny(() => undefined));
+            }
+
+            const elapsed = measure(() => {
+                for (const index of shuffledIndexes(count)) {
+                    cancellers[index]();
+                }
+            });
+
+            expect(emitter.hasListeners()).toBe(false);
+            return elapsed;
+        });
+
+        expect(growth).toBeLessThan(MAX_GROWTH);
+    });
+
+    test("Subscriptions cancelled by their own handlers during an emit", () => {
+        const growth = measureGrowth((count) => {
+            const emitter = new EventEmitter<Events>();
+            let callCount = 0;
+            for (let i = 0; i < count; ++i) {
+                emitter.once("foo", () => {
+                    ++callCount;
+                });
+            }
+
+            const elapsed = measure(() => {
+                emitter.emit.foo(42);
+            });
+
+            expect(callCount).toBe(count);
+            expect(emitter.hasListeners()).toBe(false);
+            return elapsed;
+        });
+
+        expect(growth).toBeLessThan(MAX_GROWTH);
+    });
+
+    test("Subscribing and cancelling while emitting other events", () => {
+        const growth = measureGrowth((count) => {
+            const emitter = new EventEmitter<Events>();
+            emitter.on("bar", () => undefined);
+
+            const elapsed = measure(() => {
+                const cancellers: SubscriptionCanceller[] = [];
+                for (let i = 0; i < count; ++i) {
+                    cancellers.push(emitter.on("foo", () => undefined));
+                    emitter.emit.bar();
+                }
+                for (const index of shuffledIndexes(count)) {
+                    cancellers[index]();
+                    emitter.emit.bar();
+                }
+            });
+
+            expect(emitter.activeEventNames()).toEqual(["bar"]);
+            return elapsed;
+        });
+
+        expect(growth).toBeLessThan(MAX_GROWTH);
+    });
+});
@@ -1,10 +1,21 @@
 // tslint:disable:no-unused-expression
 // NOTE: import from root/index to test against publicly exported types
-import { EventEmitter, SubscriptionCanceller, EventSource, once } from ".";
+import {
+    EventEmitter,
+    SubscriptionCanceller,
+    EmitInterceptor,
+    EventSource,
+    firstDefined,
+    fold,
+    once,
+    withPriority,
+    AbortSignalLike,
+} from ".";
 import { expectType, expectError } from "tsd";
 
 const baz = Symbol("baz");
 const bad = Symbol("bad");
+declare const signal: AbortSignalLike;
 
 // Sample Events interface for testing
 interface Events {
@@ -26,6 +37,18 @@ const eventEmitter = new EventEmitter<Events>();
     }>(eventEmitter.emit);
 }
 
+// emitAsync
+{
+    // `emitAsync` has the same parameters as the `Events` type, but returns Promises
+    expectType<{
+        readonly foo: (a: number, b: boolean) => Promise<void>;
+        readonly bar: (a: string) => Promise<void>;
+        readonly [baz]: (a: boolean) => Promise<void>;
+    }>(eventEmitter.emitAsync);
+
+    expectError(eventEmitter.emitAsync.foo("nope", true));
+}
+
 // toEventSource()
 {
     expectType<EventSource<Events>>(eventEmitter.toEventSource());
@@ -69,6 +92,27 @@ const eventEmitter = new EventEmitter<Events>();
         }),
     });
 
+    // subscribe using `withPriority()`
+    eventEmitter.subscribe({
+        foo: withPriority(10, (a, b) => {
+            expectType<number>(a);
+            expectType<boolean>(b);
+        }),
+        bar: withPriority(
+            -1,
+            once((a) => {
+                expectType<string>(a);
+            })
+        ),
+    });
+
+    // `withPriority()` requires a numeric priority
+    expectError(
+        eventEmitter.subscribe({
+            foo: withPriority("high", () => undefined),
+        })
+    );
+
     // handler returns a Promise.
     eventEmitter.subscribe({
         foo: (a, b) => {
@@ -146,10 +190,43 @@ const eventEmitter = new EventEmitter<Events>();
     // subscribe to an invalid unique symbol event name
     expectError(eventEmitter.on(bad, () => undefined));
 
+    // subscribe with options
+    eventEmitter.on("foo", () => undefined, { priority: 10 });
+    expectError(eventEmitter.on("foo", () => undefined, { priority: "high" }));
+    eventEmitter.on("foo", () => undefined, { signal });
+    expectError(eventEmitter.on("foo", () => undefined, { signal: true }));
+
     // returns a SubscriptionCanceller
     expectType<SubscriptionCanceller>(eventEmitter.on("bar", () => undefined));
 }
 
+// onAny()
+{
+    eventEmitter.onAny((...event) => {
+        expectType<
+            | ["foo", [number, boolean]]
+            | ["bar", [string]]
+            | [typeof baz, [boolean]]
+        >(event);
+
+        // checking the event name narrows the arguments
+        if (event[0] === "bar") {
+            expectType<[string]>(event[1]);
+        }
+    });
+
+    // handler returns a Promise
+    eventEmitter.onAny(() => Promise.resolve());
+
+    // handler returns an invalid type
+    expectError(eventEmitter.onAny(() => 42));
+
+    // returns a SubscriptionCanceller
+    expectType<SubscriptionCanceller>(
+        eventEmitter.onAny(() => undefined, { priority: 1 })
+    );
+}
+
 // once()
 {
     // subscribe with invalid event name
@@ -214,6 +291,218 @@ const eventEmitter = new EventEmitter<Events>();
     // subscribe to an invalid unique symbol event name
     expectError(eventEmitter.onceAsPromise(bad));
 
+    // wait with options
+    eventEmitter.onceAsPromise("foo", { signal });
+    expectError(eventEmitter.onceAsPromise("foo", { signal: true }));
+    eventEmitter.onceAsPromise("foo", { timeout: 5000, rejectOn: "bar" });
+    eventEmitter.onceAsPromise("foo", { rejectOn: baz });
+    expectError(eventEmitter.onceAsPromise("foo", { rejectOn: "broken" }));
+    expectError(eventEmitter.onceAsPromise("foo", { timeout: "5s" }));
+
     // returns a Promise
     expectType<Promise<[number, boolean]>>(eventEmitter.onceAsPromise("foo"));
 }
+
+// waitFor()
+{
+    // wait with invalid event name
+    expectError(eventEmitter.waitFor("broken", () => true));
+
+    // the predicate receives a tuple of the event's arguments
+    eventEmitter.waitFor("foo", (args) => {
+        expectType<[number, boolean]>(args);
+        return true;
+    });
+
+    // returns a Promise of the narrowed arguments for a type guard predicate
+    expectType<Promise<[1, true]>>(
+        eventEmitter.waitFor(
+            "foo",
+            (args): args is [1, true] => args[0] === 1 && args[1]
+        )
+    );
+
+    // returns a Promise of all arguments for a boolean predicate
+    expectType<Promise<[number, boolean]>>(
+        eventEmitter.waitFor("foo", (args) => args[1])
+    );
+
+    // wait with options
+    eventEmitter.waitFor("foo", () => true, { timeout: 5000, rejectOn: "bar" });
+    expectError(
+        eventEmitter.waitFor("foo", () => true, { rejectOn: "broken" })
+    );
+
+    // predicate must accept the arguments of the event
+    const isString = (args: [string]): args is ["ready"] => args[0] === "ready";
+    expectError(eventEmitter.waitFor("foo", isString));
+}
+
+// iterate()
+{
+    // iterate with invalid event name
+    expectError(eventEmitter.iterate("broken"));
+
+    // iterate with valid event name
+    (async () => {
+        for await (const [a, b] of eventEmitter.iterate("foo")) {
+            expectType<number>(a);
+            expectType<boolean>(b);
+        }
+    })();
+
+    // iterate with options
+    eventEmitter.iterate("foo", {
+        bufferSize: 10,
+        overflow: "drop-oldest",
+        endOn: "bar",
+        signal,
+    });
+    expectError(eventEmitter.iterate("foo", { overflow: "drop-all" }));
+    expectError(eventEmitter.iterate("foo", { endOn: "broken" }));
+
+    // returns an AsyncIterableIterator
+    expectType<AsyncIterableIterator<[number, boolean]>>(
+        eventEmitter.iterate("foo")
+    );
+}
+
+// replay option
+{
+    new EventEmitter<Events>({ replay: { foo: 1, [baz]: 2 } });
+    expectError(
+        new EventEmitter<Events>({ replay: { broken: 1 } })
+    );
+    expectError(
+        new EventEmitter<Events>({ replay: { foo: true } })
+    );
+
+    eventEmitter.clearReplay();
+    eventEmitter.clearReplay("foo");
+    expectError(eventEmitter.clearReplay("broken"));
+}
+
+// coalesce option
+{
+    new EventEmitter<Events>({
+        coalesce: {
+            foo: (previous, next) => {
+                expectType<[number, boolean]>(previous);
+                expectType<[number, boolean]>(next);
+                return next;
+            },
+            bar: "last",
+            [baz]: "first",
+        },
+        batchErrorPolicy: "discard",
+    });
+    expectError(
+        new EventEmitter<Events>({ coalesce: { foo: "newest" } })
+    );
+    expectError(
+        new EventEmitter<Events>({ coalesce: { bar: () => [42] } })
+    );
+    expectError(
+        new EventEmitter<Events>({ batchErrorPolicy: "ignore" })
+    );
+
+    // batch() returns the result of the function
+    expectType<number>(eventEmitter.batch(() => 42));
+}
+
+// dispose
+{
+    new EventEmitter<Events>({ afterDispose: "throw" });
+    expectError(
+        new EventEmitter<Events>({ afterDispose: "reject" })
+    );
+
+    expectType<boolean>(eventEmitter.isDisposed);
+
+    // The emitter and subscription cancellers are disposable
+    expectType<void>(eventEmitter[Symbol.dispose]());
+    expectType<void>(eventEmitter.on("foo", () => undefined)[Symbol.dispose]());
+}
+
+// Listener leak detection
+{
+    new EventEmitter<Events>({
+        maxListeners: 10,
+        captureSubscriptionStacks: true,
+        onListenerLeak: (warning) => {
+            expectType<"foo" | "bar" | typeof baz>(warning.eventName);
+            expectType<number>(warning.count);
+            expectType<number>(warning.maxListeners);
+            expectType<string[] | undefined>(warning.stacks);
+        },
+    });
+    expectError(
+        new EventEmitter<Events>({ maxListeners: "10" })
+    );
+}
+
+// Interceptors
+{
+    const remove = eventEmitter.use((...emit) => {
+        if (emit[0] === "foo") {
+            expectType<[a: number, b: boolean]>(emit[1]);
+            emit[2]([emit[1][0] + 1, emit[1][1]]);
+            expectError(emit[2](["42", true]));
+        } else if (emit[0] === "bar") {
+            expectType<[a: string]>(emit[1]);
+            emit[2]();
+        }
+    });
+    expectType<SubscriptionCanceller>(remove);
+
+    // Generic interceptors that apply to any emitter
+    const freezeArgs: EmitInterceptor<any> = (eventName, args, next) => {
+        next(args.map((arg) => Object.freeze(arg)));
+    };
+    eventEmitter.use(freezeArgs);
+}
+
+// invoke
+{
+    interface InvokeEvents {
+        validate(value: string): string | undefined;
+        getItems(): Promise<string[]>;
+        changed(): void;
+    }
+
+    const invokeEmitter = new EventEmitter<InvokeEvents>();
+
+    // Handlers must return the declared return type
+    invokeEmitter.on("validate", (value) => {
+        expectType<string>(value);
+        return value ? undefined : "Required";
+    });
+    expectError(invokeEmitter.on("validate", () => 42));
+    invokeEmitter.subscribe({ getItems: async () => ["a"] });
+    invokeEmitter.on("changed", async () => undefined);
+
+    expectType<(string | undefined)[]>(invokeEmitter.invoke("validate", [""]));
+    expectType<string | undefined>(
+        invokeEmitter.invoke("validate", [""], firstDefined)
+    );
+    expectType<number>(
+        invokeEmitter.invoke(
+            "validate",
+            [""],
+            fold((count: number, result) => count + (result ? 1 : 0), 0)
+        )
+    );
+    expectError(invokeEmitter.invoke("validate", [42]));
+    expectError(invokeEmitter.invoke("validate", []));
+
+    expectType<Promise<(string[] | undefined)[]>>(
+        invokeEmitter.invokeAsync("getItems", [])
+    );
+    expectType<Promise<string[] | undefined>>(
+        invokeEmitter.invokeAsync("getItems", [], firstDefined)
+    );
+
+    // Emits ignore the results of handlers
+    expectType<void>(invokeEmitter.emit.validate(""));
+    expectType<Promise<void>>(invokeEmitter.emitAsync.validate(""));
+}
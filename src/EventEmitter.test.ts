@@ -1,5 +1,19 @@
 import { EventEmitter } from "./EventEmitter";
 import { once } from "./once";
+import { withPriority } from "./withPriority";
+import {
+    EventHandlerAggregateError,
+    AbortError,
+    TimeoutError,
+    EventRejectionError,
+    BufferOverflowError,
+    DisposedError,
+    EmitDepthError,
+    InterceptorNextError,
+} from "./errors";
+import { disposeSymbol } from "./disposable";
+import { firstDefined, fold } from "./reducers";
+import { EventEmitterOptions, AbortSignalLike } from "./types.private";
 import flushPromises from "flush-promises";
 
 const baz = Symbol("baz");
@@ -11,6 +25,37 @@ interface Events {
     [baz](): void;
 }
 
+interface TestAbortController {
+    readonly signal: AbortSignalLike;
+    abort(reason?: unknown): void;
+}
+
+// Minimal AbortController implementation for testing
+function createAbortController(): TestAbortController {
+    let listeners: (() => void)[] = [];
+    const signal = {
+        aborted: false,
+        reason: undefined as unknown,
+        addEventListener(type: "abort", listener: () => void): void {
+            listeners.push(listener);
+        },
+        removeEventListener(type: "abort", listener: () => void): void {
+            listeners = listeners.filter((item) => item !== listener);
+        },
+    };
+
+    return {
+        signal,
+        abort(reason?: unknown): void {
+            if (!signal.aborted) {
+                signal.aborted = true;
+                signal.reason = reason;
+                listeners.forEach((listener) => listener());
+            }
+        },
+    };
+}
+
 describe("toEventSource()", () => {
     test("Returns a new EventSource", () => {
         const emitter = new EventEmitter<Events>();
@@ -121,6 +166,45 @@ describe("General emitting", () => {
 
         expect(baz1).toHaveBeenCalledTimes(1);
     });
+
+    test("Supports event names of Object.prototype members", () => {
+        interface PrototypeEvents {
+            toString(a: number): void;
+            valueOf(a: number): void;
+            constructor: (a: number) => void;
+        }
+
+        const emitter = new EventEmitter<PrototypeEvents>();
+        const toStringHandler = jest.fn();
+        const valueOfHandler = jest.fn();
+        const constructorHandler = jest.fn();
+
+        emitter.on("toString", toStringHandler);
+        emitter.once("valueOf", valueOfHandler);
+        emitter.on("constructor", constructorHandler);
+        expect(emitter.activeEventNames()).toEqual([
+            "toString",
+            "valueOf",
+            "constructor",
+        ]);
+        expect(emitter.emit.toString).not.toBe(Object.prototype.toString);
+
+        emitter.batch(() => {
+            emitter.emit.toString(1);
+            emitter.emit.toString(2);
+        });
+        emitter.emit.valueOf(3);
+        emitter.emit.constructor(4);
+
+        const lateToStringHandler = jest.fn();
+        emitter.on("toString", lateToStringHandler);
+
+        expect(toStringHandler.mock.calls).toEqual([[1], [2]]);
+        expect(lateToStringHandler).not.toHaveBeenCalled();
+        expect(valueOfHandler.mock.calls).toEqual([[3]]);
+        expect(constructorHandler.mock.calls).toEqual([[4]]);
+        expect(emitter.listenerCount("valueOf")).toBe(0);
+    });
 });
 
 describe("Cancel subscription", () => {
@@ -385,3 +469,2343 @@ test("Handlers that are removed during an emit are not called during that emit (
 
     expect(output).toEqual([2]);
 });
+
+test("Subscribing and cancelling during an emit does not disturb the order of that emit", () => {
+    const output: number[] = [];
+    const emitter = new EventEmitter<Events>();
+    const cancellers: (() => void)[] = [];
+
+    for (let i = 1; i <= 4; ++i) {
+        cancellers.push(
+            emitter.on("bar", () => {
+                output.push(i);
+
+                if (i === 2) {
+                    // Inserted before all existing handlers
+                    emitter.on(
+                        "bar",
+                        () => {
+                            output.push(0);
+                        },
+                        { priority: 1 }
+                    );
+                    // Enough cancellations to compact the list of handlers
+                    cancellers[0]();
+                    cancellers[1]();
+                    cancellers[3]();
+                }
+            })
+        );
+    }
+
+    emitter.emit.bar();
+    expect(output).toEqual([1, 2, 3]);
+
+    output.length = 0;
+    emitter.emit.bar();
+    expect(output).toEqual([0, 3]);
+});
+
+describe("Handler errors", () => {
+    function createThrowingEmitter(
+        options?: EventEmitterOptions<Events>
+    ): {
+        emitter: EventEmitter<Events>;
+        foo1: jest.Mock;
+        foo2: jest.Mock;
+        error1: Error;
+        error2: Error;
+    } {
+        const emitter = new EventEmitter<Events>(options);
+        const error1 = new Error("first");
+        const error2 = new Error("second");
+        const foo1 = jest.fn(() => {
+            throw error1;
+        });
+        const foo2 = jest.fn();
+
+        emitter.on("foo", foo1);
+        emitter.on("foo", foo2);
+        emitter.on("foo", () => {
+            throw error2;
+        });
+
+        return { emitter, foo1, foo2, error1, error2 };
+    }
+
+    test("Default policy calls all handlers, then rethrows the first error", () => {
+        const { emitter, foo1, foo2, error1 } = createThrowingEmitter();
+
+        expect(() => {
+            emitter.emit.foo(42, true);
+        }).toThrow(error1);
+
+        expect(foo1).toHaveBeenCalledTimes(1);
+        expect(foo2).toHaveBeenCalledTimes(1);
+        expect(foo2).toHaveBeenLastCalledWith(42, true);
+    });
+
+    test("'aggregate' policy throws an EventHandlerAggregateError with all errors", () => {
+        const { emitter, foo2, error1, error2 } = createThrowingEmitter({
+            handlerErrorPolicy: "aggregate",
+        });
+
+        let thrown: unknown;
+        try {
+            emitter.emit.foo(42, true);
+        } catch (error) {
+            thrown = error;
+        }
+
+        expect(thrown).toBeInstanceOf(EventHandlerAggregateError);
+        expect((thrown as EventHandlerAggregateError).errors).toEqual([
+            error1,
+            error2,
+        ]);
+        expect((thrown as EventHandlerAggregateError).eventName).toBe("foo");
+        expect(foo2).toHaveBeenCalledTimes(1);
+    });
+
+    test("'report' policy reports each error and does not throw", () => {
+        const onHandlerError = jest.fn();
+        const { emitter, foo2, error1, error2 } = createThrowingEmitter({
+            handlerErrorPolicy: "report",
+            onHandlerError,
+        });
+
+        expect(() => {
+            emitter.emit.foo(42, true);
+        }).not.toThrow();
+
+        expect(foo2).toHaveBeenCalledTimes(1);
+        expect(onHandlerError.mock.calls).toEqual([
+            [error1, "foo", [42, true]],
+            [error2, "foo", [42, true]],
+        ]);
+    });
+
+    test("'report' policy logs to console.error by default", () => {
+        const consoleError = jest
+            .spyOn(console, "error")
+            .mockImplementation(() => undefined);
+        const { emitter, error1, error2 } = createThrowingEmitter({
+            handlerErrorPolicy: "report",
+        });
+
+        try {
+            emitter.emit.foo(42, true);
+
+            expect(consoleError).toHaveBeenCalledTimes(2);
+            expect(consoleError.mock.calls[0][1]).toBe(error1);
+            expect(consoleError.mock.calls[1][1]).toBe(error2);
+        } finally {
+            consoleError.mockRestore();
+        }
+    });
+});
+
+describe("emitAsync", () => {
+    function delay(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    test("Resolves without any subscribers", async () => {
+        const emitter = new EventEmitter<Events>();
+
+        await expect(emitter.emitAsync.foo(42, true)).resolves.toBe(undefined);
+    });
+
+    test("'parallel' mode (default) starts all handlers immediately and waits for all of them", async () => {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>();
+
+        emitter.on("foo", async (a) => {
+            output.push(`start1:${a}`);
+            await delay(20);
+            output.push("end1");
+        });
+
+        emitter.on("foo", async (a) => {
+            output.push(`start2:${a}`);
+            await delay(10);
+            output.push("end2");
+        });
+
+        await emitter.emitAsync.foo(42, true);
+
+        expect(output).toEqual(["start1:42", "start2:42", "end2", "end1"]);
+    });
+
+    test("'serial' mode waits for each handler before calling the next", async () => {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>({ asyncEmitMode: "serial" });
+
+        emitter.on("foo", async () => {
+            output.push("start1");
+            await delay(20);
+            output.push("end1");
+        });
+
+        const cancel3 = emitter.on("foo", () => {
+            output.push("3");
+        });
+
+        emitter.on("foo", async () => {
+            output.push("start2");
+            await delay(10);
+            output.push("end2");
+        });
+
+        const promise = emitter.emitAsync.foo(42, true);
+        // Handlers cancelled while waiting are not called
+        cancel3();
+        await promise;
+
+        expect(output).toEqual(["start1", "end1", "start2", "end2"]);
+    });
+
+    test("Rejects with the first error after all handlers complete", async () => {
+        const error1 = new Error("first");
+        const error2 = new Error("second");
+        const foo = jest.fn();
+        const emitter = new EventEmitter<Events>();
+
+        emitter.on("foo", async () => {
+            await delay(10);
+            throw error1;
+        });
+        emitter.on("foo", () => {
+            throw error2;
+        });
+        emitter.on("foo", foo);
+
+        await expect(emitter.emitAsync.foo(42, true)).rejects.toBe(error1);
+        expect(foo).toHaveBeenCalledTimes(1);
+    });
+
+    test("Handler errors are handled according to the error policy", async () => {
+        const error = new Error("oops");
+        const onHandlerError = jest.fn();
+        const reportingEmitter = new EventEmitter<Events>({
+            handlerErrorPolicy: "report",
+            onHandlerError,
+            asyncEmitMode: "serial",
+        });
+        const aggregateEmitter = new EventEmitter<Events>({
+            handlerErrorPolicy: "aggregate",
+        });
+        const handler = async (): Promise<void> => {
+            throw error;
+        };
+
+        reportingEmitter.on("foo", handler);
+        aggregateEmitter.on("foo", handler);
+
+        await expect(reportingEmitter.emitAsync.foo(42, true)).resolves.toBe(
+            undefined
+        );
+        expect(onHandlerError).toHaveBeenCalledWith(error, "foo", [42, true]);
+
+        await expect(
+            aggregateEmitter.emitAsync.foo(42, true)
+        ).rejects.toBeInstanceOf(EventHandlerAggregateError);
+    });
+});
+
+describe("Async handler rejections during emit", () => {
+    test("Rejections are reported to onHandlerRejection with the event name and arguments", async () => {
+        const error = new Error("oops");
+        const onHandlerError = jest.fn();
+        const onHandlerRejection = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            onHandlerError,
+            onHandlerRejection,
+        });
+        const foo = jest.fn();
+
+        emitter.on("foo", async () => {
+            throw error;
+        });
+        emitter.on("foo", foo);
+
+        expect(() => {
+            emitter.emit.foo(42, true);
+        }).not.toThrow();
+        expect(foo).toHaveBeenCalledTimes(1);
+
+        await flushPromises();
+
+        expect(onHandlerRejection).toHaveBeenCalledTimes(1);
+        expect(onHandlerRejection).toHaveBeenLastCalledWith(error, "foo", [
+            42,
+            true,
+        ]);
+        expect(onHandlerError).not.toHaveBeenCalled();
+    });
+
+    test("Rejections are reported to onHandlerError by default", async () => {
+        const error = new Error("oops");
+        const onHandlerError = jest.fn();
+        const emitter = new EventEmitter<Events>({ onHandlerError });
+
+        emitter.on(baz, async () => {
+            throw error;
+        });
+
+        emitter.emit[baz]();
+        await flushPromises();
+
+        expect(onHandlerError).toHaveBeenCalledTimes(1);
+        expect(onHandlerError).toHaveBeenLastCalledWith(error, baz, []);
+    });
+
+    test("Resolved promises are not reported", async () => {
+        const onHandlerError = jest.fn();
+        const emitter = new EventEmitter<Events>({ onHandlerError });
+
+        emitter.on("bar", async () => undefined);
+
+        emitter.emit.bar();
+        await flushPromises();
+
+        expect(onHandlerError).not.toHaveBeenCalled();
+    });
+});
+
+describe("Subscription introspection", () => {
+    test("Reports listener counts and active event names", () => {
+        const emitter = new EventEmitter<Events>();
+
+        expect(emitter.listenerCount("foo")).toBe(0);
+        expect(emitter.hasListeners()).toBe(false);
+        expect(emitter.hasListeners("foo")).toBe(false);
+        expect(emitter.activeEventNames()).toEqual([]);
+
+        const cancelFoo1 = emitter.on("foo", () => undefined);
+        const cancelFoo2 = emitter.once("foo", () => undefined);
+        const cancelBaz = emitter.subscribe({
+            [baz]: () => undefined,
+        });
+
+        expect(emitter.listenerCount("foo")).toBe(2);
+        expect(emitter.listenerCount("bar")).toBe(0);
+        expect(emitter.listenerCount(baz)).toBe(1);
+        expect(emitter.hasListeners()).toBe(true);
+        expect(emitter.hasListeners("foo")).toBe(true);
+        expect(emitter.hasListeners("bar")).toBe(false);
+        expect(emitter.activeEventNames()).toEqual(["foo", baz]);
+
+        cancelFoo1();
+        expect(emitter.listenerCount("foo")).toBe(1);
+
+        cancelFoo2();
+        cancelBaz();
+        expect(emitter.listenerCount("foo")).toBe(0);
+        expect(emitter.listenerCount(baz)).toBe(0);
+        expect(emitter.hasListeners()).toBe(false);
+        expect(emitter.activeEventNames()).toEqual([]);
+    });
+
+    test("One-time handlers are no longer counted after being called", () => {
+        const emitter = new EventEmitter<Events>();
+
+        emitter.once("bar", () => undefined);
+        expect(emitter.listenerCount("bar")).toBe(1);
+
+        emitter.emit.bar();
+        expect(emitter.listenerCount("bar")).toBe(0);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Cancelling a unique symbol event subscription stops its handler from being called", () => {
+        const emitter = new EventEmitter<Events>();
+        const bazHandler = jest.fn();
+
+        const cancel = emitter.on(baz, bazHandler);
+        cancel();
+        emitter.emit[baz]();
+
+        expect(bazHandler).not.toHaveBeenCalled();
+    });
+});
+
+describe("Subscriber lifecycle hooks", () => {
+    test("Hooks are called when events and the emitter gain their first and lose their last subscriber", () => {
+        const calls: unknown[][] = [];
+        const emitter = new EventEmitter<Events>({
+            onFirstSubscriber: (eventName) => {
+                calls.push(["first", eventName]);
+            },
+            onLastUnsubscriber: (eventName) => {
+                calls.push(["last", eventName]);
+            },
+            onActivated: () => {
+                calls.push(["activated"]);
+            },
+            onDeactivated: () => {
+                calls.push(["deactivated"]);
+            },
+        });
+
+        const cancelFoo1 = emitter.on("foo", () => undefined);
+        expect(calls).toEqual([["activated"], ["first", "foo"]]);
+
+        calls.length = 0;
+        const cancelFoo2 = emitter.on("foo", () => undefined);
+        const cancelBaz = emitter.on(baz, () => undefined);
+        expect(calls).toEqual([["first", baz]]);
+
+        calls.length = 0;
+        cancelFoo1();
+        // Cancelling more than once has no effect
+        cancelFoo1();
+        expect(calls).toEqual([]);
+
+        cancelFoo2();
+        expect(calls).toEqual([["last", "foo"]]);
+
+        calls.length = 0;
+        cancelBaz();
+        expect(calls).toEqual([["last", baz], ["deactivated"]]);
+    });
+
+    test("One-time subscriptions end when the handler is called", () => {
+        const onLastUnsubscriber = jest.fn();
+        const onDeactivated = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            onLastUnsubscriber,
+            onDeactivated,
+        });
+
+        emitter.subscribe({ bar: once(() => undefined) });
+        emitter.onceAsPromise("foo");
+
+        emitter.emit.bar();
+        expect(onLastUnsubscriber).toHaveBeenLastCalledWith("bar");
+        expect(onDeactivated).not.toHaveBeenCalled();
+
+        emitter.emit.foo(42, true);
+        expect(onLastUnsubscriber).toHaveBeenLastCalledWith("foo");
+        expect(onDeactivated).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("Handler priority", () => {
+    test("Handlers are called in order of priority, then subscription order", () => {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>();
+
+        emitter.on("bar", () => {
+            output.push("default1");
+        });
+        emitter.on(
+            "bar",
+            () => {
+                output.push("low");
+            },
+            { priority: -5 }
+        );
+        emitter.on(
+            "bar",
+            () => {
+                output.push("high1");
+            },
+            { priority: 10 }
+        );
+        emitter.once(
+            "bar",
+            () => {
+                output.push("high2");
+            },
+            { priority: 10 }
+        );
+        emitter.on("bar", () => {
+            output.push("default2");
+        });
+        emitter.on(
+            "bar",
+            () => {
+                output.push("highest");
+            },
+            { priority: 100 }
+        );
+
+        emitter.emit.bar();
+
+        expect(output).toEqual([
+            "highest",
+            "high1",
+            "high2",
+            "default1",
+            "default2",
+            "low",
+        ]);
+
+        // The one-time handler is removed without affecting the order of others
+        output.length = 0;
+        emitter.emit.bar();
+
+        expect(output).toEqual([
+            "highest",
+            "high1",
+            "default1",
+            "default2",
+            "low",
+        ]);
+    });
+
+    test("withPriority() specifies priority within subscribe()", () => {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>();
+
+        emitter.subscribe({
+            bar: () => {
+                output.push("default");
+            },
+        });
+        emitter.subscribe({
+            bar: withPriority(1, () => {
+                output.push("high");
+            }),
+        });
+        emitter.subscribe({
+            bar: withPriority(
+                2,
+                once(() => {
+                    output.push("highest-once");
+                })
+            ),
+        });
+
+        emitter.emit.bar();
+        emitter.emit.bar();
+
+        expect(output).toEqual([
+            "highest-once",
+            "high",
+            "default",
+            "high",
+            "default",
+        ]);
+    });
+});
+
+describe("onAny()", () => {
+    test("Handler is called for every event with the event name and arguments", () => {
+        const output: unknown[] = [];
+        const emitter = new EventEmitter<Events>();
+
+        emitter.onAny((...event) => {
+            output.push(event);
+        });
+        emitter.on("foo", () => {
+            output.push("foo handler");
+        });
+
+        emitter.emit.foo(42, true);
+        emitter.emit.bar();
+        emitter.emit[baz]();
+
+        expect(output).toEqual([
+            "foo handler",
+            ["foo", [42, true]],
+            ["bar", []],
+            [baz, []],
+        ]);
+    });
+
+    test("Handlers are called in order of priority and can be cancelled", () => {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>();
+
+        const cancel = emitter.onAny(() => {
+            output.push("low");
+        });
+        emitter.onAny(
+            () => {
+                output.push("high");
+            },
+            { priority: 1 }
+        );
+
+        emitter.emit.bar();
+        cancel();
+        emitter.emit.bar();
+
+        expect(output).toEqual(["high", "low", "high"]);
+    });
+
+    test("Counts as a listener of every event", () => {
+        const onActivated = jest.fn();
+        const onDeactivated = jest.fn();
+        const onFirstSubscriber = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            onActivated,
+            onDeactivated,
+            onFirstSubscriber,
+        });
+
+        const cancel = emitter.onAny(() => undefined);
+
+        expect(onActivated).toHaveBeenCalledTimes(1);
+        expect(onFirstSubscriber).not.toHaveBeenCalled();
+        expect(emitter.listenerCount("foo")).toBe(1);
+        expect(emitter.hasListeners(baz)).toBe(true);
+        expect(emitter.hasListeners()).toBe(true);
+        expect(emitter.activeEventNames()).toEqual([]);
+
+        cancel();
+
+        expect(onDeactivated).toHaveBeenCalledTimes(1);
+        expect(emitter.hasListeners("foo")).toBe(false);
+    });
+
+    test("Handler errors and rejections are handled like other handlers", async () => {
+        const error = new Error("oops");
+        const onHandlerError = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            handlerErrorPolicy: "report",
+            onHandlerError,
+        });
+
+        emitter.onAny(() => {
+            throw error;
+        });
+        emitter.onAny(async () => {
+            throw error;
+        });
+
+        emitter.emit.foo(42, true);
+        await flushPromises();
+
+        expect(onHandlerError.mock.calls).toEqual([
+            [error, "foo", [42, true]],
+            [error, "foo", [42, true]],
+        ]);
+    });
+
+    test("Handler is awaited by emitAsync", async () => {
+        const output: unknown[] = [];
+        const emitter = new EventEmitter<Events>();
+
+        emitter.onAny(async (...event) => {
+            await flushPromises();
+            output.push(event);
+        });
+
+        await emitter.emitAsync.foo(42, true);
+
+        expect(output).toEqual([["foo", [42, true]]]);
+    });
+
+    test("Is available on the EventSource from toEventSource()", () => {
+        const emitter = new EventEmitter<Events>();
+        const handler = jest.fn();
+
+        emitter.toEventSource().onAny(handler);
+        emitter.emit.bar();
+
+        expect(handler).toHaveBeenCalledWith("bar", []);
+    });
+});
+
+describe("AbortSignal", () => {
+    test("Aborting cancels on(), once() and onAny() subscriptions", () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        const options = { signal: controller.signal };
+
+        const foo = jest.fn();
+        const fooOnce = jest.fn();
+        const anyHandler = jest.fn();
+        emitter.on("foo", foo, options);
+        emitter.once("foo", fooOnce, options);
+        emitter.onAny(anyHandler, options);
+
+        controller.abort();
+        emitter.emit.foo(42, true);
+
+        expect(foo).not.toHaveBeenCalled();
+        expect(fooOnce).not.toHaveBeenCalled();
+        expect(anyHandler).not.toHaveBeenCalled();
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Aborting cancels all subscriptions of subscribe()", () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+
+        const foo = jest.fn();
+        const bar = jest.fn();
+        emitter.subscribe(
+            { foo, bar: once(bar) },
+            { signal: controller.signal }
+        );
+
+        controller.abort();
+        emitter.emit.foo(42, true);
+        emitter.emit.bar();
+
+        expect(foo).not.toHaveBeenCalled();
+        expect(bar).not.toHaveBeenCalled();
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("An already aborted signal prevents the subscription", () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        controller.abort();
+
+        const foo = jest.fn();
+        const cancel = emitter.on("foo", foo, { signal: controller.signal });
+        emitter.emit.foo(42, true);
+
+        expect(foo).not.toHaveBeenCalled();
+        expect(emitter.hasListeners()).toBe(false);
+        expect(() => cancel()).not.toThrow();
+    });
+
+    test("Cancelling stops listening to the signal", () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        const removeEventListener = jest.spyOn(
+            controller.signal,
+            "removeEventListener"
+        );
+
+        const cancel = emitter.on("foo", jest.fn(), {
+            signal: controller.signal,
+        });
+        cancel();
+
+        expect(removeEventListener).toHaveBeenCalledTimes(1);
+    });
+
+    test("Disposing stops listening to the signal", () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        const addEventListener = jest.spyOn(
+            controller.signal,
+            "addEventListener"
+        );
+        const removeEventListener = jest.spyOn(
+            controller.signal,
+            "removeEventListener"
+        );
+        const options = { signal: controller.signal };
+
+        emitter.on("foo", jest.fn(), options);
+        emitter.onAny(jest.fn(), options);
+        emitter.subscribe({ foo: jest.fn(), bar: jest.fn() }, options);
+        emitter.dispose();
+
+        // Subscribing after disposing does not listen either
+        emitter.on("foo", jest.fn(), options);
+
+        expect(addEventListener).toHaveBeenCalledTimes(4);
+        expect(removeEventListener.mock.calls).toEqual(
+            addEventListener.mock.calls
+        );
+    });
+
+    test("onceAsPromise() rejects with the abort reason", async () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        const reason = new Error("Aborted!");
+
+        const promise = emitter.onceAsPromise("foo", {
+            signal: controller.signal,
+        });
+        controller.abort(reason);
+
+        await expect(promise).rejects.toBe(reason);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("onceAsPromise() rejects immediately for an already aborted signal", async () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        controller.abort("reason");
+
+        await expect(
+            emitter.onceAsPromise("foo", { signal: controller.signal })
+        ).rejects.toBe("reason");
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("onceAsPromise() rejects with an AbortError when the signal has no reason", async () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+
+        const promise = emitter.onceAsPromise("foo", {
+            signal: controller.signal,
+        });
+        controller.abort();
+
+        await expect(promise).rejects.toBeInstanceOf(AbortError);
+    });
+
+    test("onceAsPromise() resolves normally and stops listening to the signal", async () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        const removeEventListener = jest.spyOn(
+            controller.signal,
+            "removeEventListener"
+        );
+
+        const promise = emitter.onceAsPromise("foo", {
+            signal: controller.signal,
+        });
+        emitter.emit.foo(42, true);
+
+        expect(Array.from(await promise)).toEqual([42, true]);
+        expect(removeEventListener).toHaveBeenCalled();
+    });
+});
+
+describe("onceAsPromise() options", () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test("Rejects with a TimeoutError and cancels the subscription after the timeout", async () => {
+        const emitter = new EventEmitter<Events>();
+
+        const promise = emitter.onceAsPromise("foo", { timeout: 1000 });
+
+        jest.advanceTimersByTime(999);
+        expect(emitter.hasListeners("foo")).toBe(true);
+
+        jest.advanceTimersByTime(1);
+        expect(emitter.hasListeners("foo")).toBe(false);
+
+        const error: TimeoutError = await promise.catch((e) => e);
+        expect(error).toBeInstanceOf(TimeoutError);
+        expect(error.eventName).toBe("foo");
+        expect(error.timeout).toBe(1000);
+    });
+
+    test("Resolves before the timeout and clears the timer", async () => {
+        const emitter = new EventEmitter<Events>();
+
+        const promise = emitter.onceAsPromise("foo", { timeout: 1000 });
+        emitter.emit.foo(42, true);
+
+        expect(Array.from(await promise)).toEqual([42, true]);
+        expect(jest.getTimerCount()).toBe(0);
+    });
+
+    test("Rejects with an EventRejectionError when the rejectOn event is emitted first", async () => {
+        const emitter = new EventEmitter<Events>();
+
+        const promise = emitter.onceAsPromise("bar", { rejectOn: "foo" });
+        emitter.emit.foo(42, true);
+
+        const error: EventRejectionError = await promise.catch((e) => e);
+        expect(error).toBeInstanceOf(EventRejectionError);
+        expect(error.eventName).toBe("foo");
+        expect(error.args).toEqual([42, true]);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Cancels the rejectOn subscription when resolved", async () => {
+        const emitter = new EventEmitter<Events>();
+
+        const promise = emitter.onceAsPromise("bar", {
+            timeout: 1000,
+            rejectOn: "foo",
+        });
+        emitter.emit.bar();
+
+        expect(Array.from(await promise)).toEqual([]);
+        expect(emitter.hasListeners()).toBe(false);
+        expect(jest.getTimerCount()).toBe(0);
+    });
+});
+
+describe("iterate()", () => {
+    test("Iterates over emitted events until the loop is exited", async () => {
+        const emitter = new EventEmitter<Events>();
+        const iterator = emitter.iterate("foo");
+        const values: [number, boolean][] = [];
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, false);
+
+        for await (const args of iterator) {
+            values.push(args);
+
+            if (args[0] === 2) {
+                emitter.emit.foo(3, true);
+            } else if (args[0] === 3) {
+                break;
+            }
+        }
+
+        expect(values).toEqual([
+            [1, true],
+            [2, false],
+            [3, true],
+        ]);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Waits for events that have not been emitted yet", async () => {
+        const emitter = new EventEmitter<Events>();
+        const iterator = emitter.iterate("foo");
+
+        const result = iterator.next();
+        emitter.emit.foo(42, true);
+
+        expect(await result).toEqual({ value: [42, true], done: false });
+    });
+
+    test("Unsubscribes when the loop body throws", async () => {
+        const emitter = new EventEmitter<Events>();
+        const error = new Error("Oops!");
+
+        emitter.emit.foo(42, true);
+        const loop = async (): Promise<void> => {
+            for await (const args of emitter.iterate("foo")) {
+                expect(args).toEqual([42, true]);
+                throw error;
+            }
+        };
+        const promise = loop();
+        emitter.emit.foo(42, true);
+
+        await expect(promise).rejects.toBe(error);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Ends when the endOn event is emitted, after buffered events", async () => {
+        const emitter = new EventEmitter<Events>();
+        const iterator = emitter.iterate("foo", { endOn: "bar" });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.bar();
+        emitter.emit.foo(2, true);
+
+        expect(await iterator.next()).toEqual({
+            value: [1, true],
+            done: false,
+        });
+        expect(await iterator.next()).toEqual({ value: undefined, done: true });
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Pending reads are done when the endOn event is emitted", async () => {
+        const emitter = new EventEmitter<Events>();
+        const iterator = emitter.iterate("foo", { endOn: baz });
+
+        const result = iterator.next();
+        emitter.emit[baz]();
+
+        expect(await result).toEqual({ value: undefined, done: true });
+    });
+
+    test('"drop-oldest" overflow strategy', async () => {
+        const emitter = new EventEmitter<Events>();
+        const iterator = emitter.iterate("foo", {
+            bufferSize: 2,
+            overflow: "drop-oldest",
+        });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, true);
+        emitter.emit.foo(3, true);
+
+        expect((await iterator.next()).value).toEqual([2, true]);
+        expect((await iterator.next()).value).toEqual([3, true]);
+    });
+
+    test('"drop-newest" overflow strategy', async () => {
+        const emitter = new EventEmitter<Events>();
+        const iterator = emitter.iterate("foo", {
+            bufferSize: 2,
+            overflow: "drop-newest",
+        });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, true);
+        emitter.emit.foo(3, true);
+        const result = iterator.next();
+        emitter.emit.foo(4, true);
+
+        expect((await result).value).toEqual([1, true]);
+        expect((await iterator.next()).value).toEqual([2, true]);
+        expect((await iterator.next()).value).toEqual([4, true]);
+    });
+
+    test('"throw" overflow strategy', async () => {
+        const emitter = new EventEmitter<Events>();
+        const iterator = emitter.iterate("foo", { bufferSize: 1 });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, true);
+
+        // The overflow ended the subscription
+        expect(emitter.hasListeners()).toBe(false);
+
+        expect((await iterator.next()).value).toEqual([1, true]);
+
+        const error: BufferOverflowError = await iterator
+            .next()
+            .catch((e) => e);
+        expect(error).toBeInstanceOf(BufferOverflowError);
+        expect(error.eventName).toBe("foo");
+        expect(error.bufferSize).toBe(1);
+
+        expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    test("Ends by throwing the abort reason when the signal is aborted", async () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+        const iterator = emitter.iterate("foo", { signal: controller.signal });
+
+        const result = iterator.next();
+        controller.abort("reason");
+
+        await expect(result).rejects.toBe("reason");
+        expect(emitter.hasListeners()).toBe(false);
+    });
+});
+
+describe("waitFor()", () => {
+    test("Resolves the first time the event is emitted with matching arguments", async () => {
+        const emitter = new EventEmitter<Events>();
+        const predicate = jest.fn((args: [number, boolean]) => args[1]);
+
+        const promise = emitter.waitFor("foo", predicate);
+        emitter.emit.foo(1, false);
+        emitter.emit.foo(2, true);
+        emitter.emit.foo(3, true);
+
+        expect(await promise).toEqual([2, true]);
+        expect(predicate).toHaveBeenCalledTimes(2);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Rejects with the error thrown by the predicate", async () => {
+        const emitter = new EventEmitter<Events>();
+        const error = new Error("Oops!");
+
+        const promise = emitter.waitFor("foo", () => {
+            throw error;
+        });
+
+        // Not treated as an event handler error
+        expect(() => emitter.emit.foo(42, true)).not.toThrow();
+        await expect(promise).rejects.toBe(error);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Supports the same options as onceAsPromise()", async () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortController();
+
+        const promise = emitter.waitFor("foo", (args) => args[1], {
+            rejectOn: "bar",
+            signal: controller.signal,
+        });
+        emitter.emit.foo(42, false);
+        emitter.emit.bar();
+
+        await expect(promise).rejects.toBeInstanceOf(EventRejectionError);
+        expect(emitter.hasListeners()).toBe(false);
+
+        jest.useFakeTimers();
+        try {
+            const timedOut = emitter.waitFor("foo", () => true, {
+                timeout: 100,
+            });
+            jest.advanceTimersByTime(100);
+
+            await expect(timedOut).rejects.toBeInstanceOf(TimeoutError);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+});
+
+describe("Replay", () => {
+    test("New subscribers receive the most recent emits of replayed events", () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 2 } });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, false);
+        emitter.emit.foo(3, true);
+        emitter.emit.bar();
+
+        const foo = jest.fn();
+        const bar = jest.fn();
+        emitter.on("foo", foo);
+        emitter.on("bar", bar);
+
+        expect(foo.mock.calls).toEqual([
+            [2, false],
+            [3, true],
+        ]);
+        expect(bar).not.toHaveBeenCalled();
+
+        // Subsequent emits are delivered normally
+        emitter.emit.foo(4, false);
+        expect(foo).toHaveBeenLastCalledWith(4, false);
+    });
+
+    test("Emits via emitAsync are replayed", async () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 1 } });
+
+        await emitter.emitAsync.foo(42, true);
+
+        const foo = jest.fn();
+        emitter.on("foo", foo);
+        expect(foo).toHaveBeenCalledWith(42, true);
+    });
+
+    test("once() and subscribe() receive replayed emits, and once() receives the most recent", () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 2 } });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, true);
+
+        const fooOnce = jest.fn();
+        emitter.once("foo", fooOnce);
+        const foo = jest.fn();
+        const fooSubscribedOnce = jest.fn();
+        emitter.subscribe({ foo });
+        emitter.subscribe({ foo: once(fooSubscribedOnce) });
+
+        expect(fooOnce.mock.calls).toEqual([[2, true]]);
+        expect(foo.mock.calls).toEqual([
+            [1, true],
+            [2, true],
+        ]);
+        expect(fooSubscribedOnce.mock.calls).toEqual([[2, true]]);
+        expect(emitter.listenerCount("foo")).toBe(1);
+    });
+
+    test("onceAsPromise() resolves immediately from the most recent replayed emit", async () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 2 } });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(42, true);
+        const promise = emitter.onceAsPromise("foo", { rejectOn: "bar" });
+
+        expect(emitter.hasListeners()).toBe(false);
+        expect(Array.from(await promise)).toEqual([42, true]);
+    });
+
+    test("waitFor() resolves immediately if the most recent replayed emit matches", async () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 3 } });
+
+        emitter.emit.foo(1, false);
+        emitter.emit.foo(2, true);
+
+        expect(await emitter.waitFor("foo", ([, b]) => b)).toEqual([2, true]);
+    });
+
+    test("waitFor() ignores replayed emits superseded by a more recent emit", async () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 3 } });
+
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, false);
+
+        const handleResolved = jest.fn();
+        const promise = emitter.waitFor("foo", ([, b]) => b);
+        promise.then(handleResolved);
+        await Promise.resolve();
+
+        expect(handleResolved).not.toHaveBeenCalled();
+        expect(emitter.listenerCount("foo")).toBe(1);
+
+        emitter.emit.foo(3, true);
+
+        expect(await promise).toEqual([3, true]);
+    });
+
+    test("onAny() subscribers do not receive replayed emits", () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 1 } });
+
+        emitter.emit.foo(42, true);
+        const anyHandler = jest.fn();
+        emitter.onAny(anyHandler);
+
+        expect(anyHandler).not.toHaveBeenCalled();
+    });
+
+    test("Errors thrown during replay are reported", () => {
+        const reporter = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            replay: { foo: 1 },
+            onHandlerError: reporter,
+        });
+        const error = new Error("Oops!");
+
+        emitter.emit.foo(42, true);
+        const cancel = emitter.on("foo", () => {
+            throw error;
+        });
+
+        expect(reporter).toHaveBeenCalledWith(error, "foo", [42, true]);
+        cancel();
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("clearReplay() forgets remembered emits", () => {
+        const emitter = new EventEmitter<Events>({
+            replay: { foo: 1, [baz]: 1 },
+        });
+
+        emitter.emit.foo(42, true);
+        emitter.emit[baz]();
+        emitter.clearReplay("foo");
+
+        const foo = jest.fn();
+        const bazHandler = jest.fn();
+        emitter.on("foo", foo);
+        emitter.on(baz, bazHandler);
+        expect(foo).not.toHaveBeenCalled();
+        expect(bazHandler).toHaveBeenCalledTimes(1);
+
+        emitter.clearReplay();
+        const bazHandler2 = jest.fn();
+        emitter.on(baz, bazHandler2);
+        expect(bazHandler2).not.toHaveBeenCalled();
+    });
+});
+
+describe("pause() and resume()", () => {
+    test("Emits while paused are queued, then delivered in order when resumed", () => {
+        const emitter = new EventEmitter<Events>();
+        const calls: unknown[][] = [];
+        emitter.onAny((...event) => {
+            calls.push(event);
+        });
+
+        emitter.pause();
+        expect(emitter.isPaused()).toBe(true);
+
+        emitter.emit.foo(1, true);
+        emitter.emit.bar();
+        emitter.emit.foo(2, false);
+        expect(calls).toEqual([]);
+
+        emitter.resume();
+        expect(emitter.isPaused()).toBe(false);
+        expect(calls).toEqual([
+            ["foo", [1, true]],
+            ["bar", []],
+            ["foo", [2, false]],
+        ]);
+    });
+
+    test("Nested pauses are counted", () => {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn();
+        emitter.on("foo", foo);
+
+        emitter.pause();
+        emitter.pause();
+        emitter.emit.foo(42, true);
+        emitter.resume();
+
+        expect(emitter.isPaused()).toBe(true);
+        expect(foo).not.toHaveBeenCalled();
+
+        emitter.resume();
+        expect(foo).toHaveBeenCalledTimes(1);
+
+        // Unmatched resume() has no effect
+        emitter.resume();
+        expect(emitter.isPaused()).toBe(false);
+    });
+
+    test('"drop" pause mode discards emits while paused', async () => {
+        const emitter = new EventEmitter<Events>({ pauseMode: "drop" });
+        const foo = jest.fn();
+        emitter.on("foo", foo);
+
+        emitter.pause();
+        emitter.emit.foo(1, true);
+        await emitter.emitAsync.foo(2, true);
+        emitter.resume();
+        emitter.emit.foo(3, true);
+
+        expect(foo.mock.calls).toEqual([[3, true]]);
+    });
+
+    test("emitAsync() resolves after the queued emit is delivered", async () => {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn();
+        emitter.on("foo", foo);
+        const promiseHandler = jest.fn();
+
+        emitter.pause();
+        emitter.emitAsync.foo(42, true).then(promiseHandler);
+        await flushPromises();
+        expect(promiseHandler).not.toHaveBeenCalled();
+
+        emitter.resume();
+        await flushPromises();
+        expect(foo).toHaveBeenCalledWith(42, true);
+        expect(promiseHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test("Pausing while delivering queued emits keeps the remaining emits queued", () => {
+        const emitter = new EventEmitter<Events>();
+        const calls: number[] = [];
+        emitter.on("foo", (a) => {
+            calls.push(a);
+
+            if (a === 1) {
+                emitter.pause();
+                emitter.emit.foo(3, true);
+            }
+        });
+
+        emitter.pause();
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, true);
+        emitter.resume();
+        expect(calls).toEqual([1]);
+
+        emitter.resume();
+        expect(calls).toEqual([1, 2, 3]);
+    });
+
+    test("Errors are rethrown after all queued emits are delivered", () => {
+        const emitter = new EventEmitter<Events>();
+        const error = new Error("Oops!");
+        emitter.on("foo", () => {
+            throw error;
+        });
+        const bar = jest.fn();
+        emitter.on("bar", bar);
+
+        emitter.pause();
+        emitter.emit.foo(42, true);
+        emitter.emit.bar();
+
+        expect(() => emitter.resume()).toThrow(error);
+        expect(bar).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("batch()", () => {
+    // Events interface for testing coalescing strategies
+    interface BatchEvents {
+        all(a: number): void;
+        first(a: number): void;
+        last(a: number): void;
+        sum(a: number): void;
+    }
+
+    const options: EventEmitterOptions<BatchEvents> = {
+        coalesce: {
+            first: "first",
+            last: "last",
+            sum: ([previous], [next]) => [previous + next],
+        },
+    };
+
+    test("Delivers coalesced emits when the function returns", () => {
+        const emitter = new EventEmitter<BatchEvents>(options);
+        const calls: unknown[][] = [];
+        emitter.onAny((...event) => {
+            calls.push(event);
+        });
+
+        const result = emitter.batch(() => {
+            emitter.emit.last(1);
+            emitter.emit.all(1);
+            emitter.emit.sum(1);
+            emitter.emit.first(1);
+            emitter.emit.all(2);
+            emitter.emit.first(2);
+            emitter.emit.sum(2);
+            emitter.emit.last(2);
+            emitter.emit.sum(3);
+
+            expect(calls).toEqual([]);
+            return "result";
+        });
+
+        expect(result).toBe("result");
+        expect(calls).toEqual([
+            ["last", [2]],
+            ["all", [1]],
+            ["sum", [6]],
+            ["first", [1]],
+            ["all", [2]],
+        ]);
+    });
+
+    test("Nested batches are delivered when the outermost batch ends", () => {
+        const emitter = new EventEmitter<BatchEvents>(options);
+        const last = jest.fn();
+        emitter.on("last", last);
+
+        emitter.batch(() => {
+            emitter.emit.last(1);
+            emitter.batch(() => {
+                emitter.emit.last(2);
+            });
+            expect(last).not.toHaveBeenCalled();
+        });
+
+        expect(last.mock.calls).toEqual([[2]]);
+    });
+
+    test("Emits are delivered when the function throws, by default", () => {
+        const emitter = new EventEmitter<BatchEvents>(options);
+        const all = jest.fn();
+        emitter.on("all", all);
+        const error = new Error("Oops!");
+
+        expect(() =>
+            emitter.batch(() => {
+                emitter.emit.all(1);
+                throw error;
+            })
+        ).toThrow(error);
+
+        expect(all).toHaveBeenCalledWith(1);
+    });
+
+    test('"discard" batch error policy', () => {
+        const emitter = new EventEmitter<BatchEvents>({
+            ...options,
+            batchErrorPolicy: "discard",
+        });
+        const all = jest.fn();
+        emitter.on("all", all);
+        const error = new Error("Oops!");
+
+        expect(() =>
+            emitter.batch(() => {
+                emitter.emit.all(1);
+                emitter.batch(() => {
+                    throw error;
+                });
+            })
+        ).toThrow(error);
+
+        expect(all).not.toHaveBeenCalled();
+
+        // The next batch starts empty
+        emitter.batch(() => emitter.emit.all(2));
+        expect(all.mock.calls).toEqual([[2]]);
+    });
+
+    test("Errors thrown by handlers are rethrown after all emits are delivered", () => {
+        const emitter = new EventEmitter<BatchEvents>(options);
+        const error = new Error("Oops!");
+        emitter.on("all", () => {
+            throw error;
+        });
+        const last = jest.fn();
+        emitter.on("last", last);
+
+        expect(() =>
+            emitter.batch(() => {
+                emitter.emit.all(1);
+                emitter.emit.last(1);
+            })
+        ).toThrow(error);
+
+        expect(last).toHaveBeenCalledTimes(1);
+    });
+
+    test("emitAsync() resolves after the coalesced emit is delivered", async () => {
+        const emitter = new EventEmitter<BatchEvents>(options);
+        const last = jest.fn();
+        emitter.on("last", last);
+
+        let first: Promise<void> | undefined;
+        let second: Promise<void> | undefined;
+        emitter.batch(() => {
+            first = emitter.emitAsync.last(1);
+            second = emitter.emitAsync.last(2);
+        });
+
+        await Promise.all([first, second]);
+        expect(last.mock.calls).toEqual([[2]]);
+    });
+});
+
+describe("dispose()", () => {
+    test("Cancels all subscriptions, calling lifecycle hooks", () => {
+        const onLastUnsubscriber = jest.fn();
+        const onDeactivated = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            onLastUnsubscriber,
+            onDeactivated,
+        });
+        const foo = jest.fn();
+        const anyHandler = jest.fn();
+        emitter.on("foo", foo);
+        emitter.subscribe({ bar: jest.fn(), [baz]: jest.fn() });
+        emitter.onAny(anyHandler);
+
+        expect(emitter.isDisposed).toBe(false);
+        emitter.dispose();
+        expect(emitter.isDisposed).toBe(true);
+
+        expect(emitter.hasListeners()).toBe(false);
+        expect(emitter.activeEventNames()).toEqual([]);
+        expect(onLastUnsubscriber.mock.calls).toEqual([
+            ["foo"],
+            ["bar"],
+            [baz],
+        ]);
+        expect(onDeactivated).toHaveBeenCalledTimes(1);
+
+        emitter.emit.foo(42, true);
+        expect(foo).not.toHaveBeenCalled();
+        expect(anyHandler).not.toHaveBeenCalled();
+    });
+
+    test("Rejects pending waits and ends pending iterations", async () => {
+        const emitter = new EventEmitter<Events>();
+        const promise = emitter.onceAsPromise("bar");
+        const waitForPromise = emitter.waitFor("foo", ([a]) => a > 1);
+        const iterator = emitter.iterate("foo");
+        emitter.emit.foo(1, true);
+
+        emitter.dispose();
+
+        await expect(promise).rejects.toBeInstanceOf(DisposedError);
+        await expect(waitForPromise).rejects.toBeInstanceOf(DisposedError);
+        expect(await iterator.next()).toEqual({
+            value: [1, true],
+            done: false,
+        });
+        expect(await iterator.next()).toEqual({
+            value: undefined,
+            done: true,
+        });
+    });
+
+    test("Waits and iterations started after disposal end immediately", async () => {
+        const emitter = new EventEmitter<Events>({ afterDispose: "throw" });
+        emitter.dispose();
+
+        await expect(emitter.onceAsPromise("foo")).rejects.toBeInstanceOf(
+            DisposedError
+        );
+        expect(await emitter.iterate("foo").next()).toEqual({
+            value: undefined,
+            done: true,
+        });
+    });
+
+    test("Discards queued and batched emits, and remembered emits", async () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 1 } });
+        const foo = jest.fn();
+        emitter.on("foo", foo);
+        emitter.emit.foo(1, true);
+        foo.mockClear();
+
+        emitter.pause();
+        const promise = emitter.emitAsync.foo(2, true);
+        emitter.dispose();
+        emitter.resume();
+
+        await expect(promise).resolves.toBeUndefined();
+        expect(foo).not.toHaveBeenCalled();
+    });
+
+    test("Later use is ignored by default", async () => {
+        const emitter = new EventEmitter<Events>();
+        emitter.dispose();
+
+        const foo = jest.fn();
+        const cancel = emitter.on("foo", foo);
+        emitter.onAny(foo);
+        emitter.emit.foo(42, true);
+        await expect(emitter.emitAsync.foo(42, true)).resolves.toBeUndefined();
+
+        expect(foo).not.toHaveBeenCalled();
+        expect(emitter.hasListeners()).toBe(false);
+        expect(() => cancel()).not.toThrow();
+    });
+
+    test("Later use throws with `afterDispose: 'throw'`", async () => {
+        const emitter = new EventEmitter<Events>({ afterDispose: "throw" });
+        emitter.dispose();
+
+        expect(() => emitter.on("foo", jest.fn())).toThrow(DisposedError);
+        expect(() => emitter.onAny(jest.fn())).toThrow(DisposedError);
+        expect(() => emitter.emit.foo(42, true)).toThrow(DisposedError);
+        await expect(emitter.emitAsync.foo(42, true)).rejects.toBeInstanceOf(
+            DisposedError
+        );
+    });
+
+    test("Calling again has no effect", () => {
+        const onDeactivated = jest.fn();
+        const emitter = new EventEmitter<Events>({ onDeactivated });
+        emitter.on("foo", jest.fn());
+
+        emitter.dispose();
+        emitter.dispose();
+
+        expect(onDeactivated).toHaveBeenCalledTimes(1);
+    });
+});
+
+// NOTE: The test environment does not provide `Symbol.dispose`, so the
+//       fallback symbol is used.
+describe("Symbol.dispose", () => {
+    test("Disposes the emitter", () => {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn();
+        emitter.on("foo", foo);
+
+        emitter[disposeSymbol]();
+
+        expect(emitter.isDisposed).toBe(true);
+        emitter.emit.foo(42, true);
+        expect(foo).not.toHaveBeenCalled();
+    });
+
+    test("Cancels subscriptions", () => {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn();
+        const cancellers = [
+            emitter.on("foo", foo),
+            emitter.once("foo", foo),
+            emitter.onAny(foo),
+            emitter.subscribe({ foo }),
+        ];
+
+        cancellers.forEach((cancel) => cancel[disposeSymbol]());
+
+        expect(emitter.hasListeners()).toBe(false);
+        emitter.emit.foo(42, true);
+        expect(foo).not.toHaveBeenCalled();
+    });
+});
+
+describe("Re-entrancy", () => {
+    // Creates an emitter whose first "foo" handler emits "bar", and emits
+    // "foo" again the first time it is called, logging all handler calls.
+    function createReentrantEmitter(
+        options?: EventEmitterOptions<Events>
+    ): { emitter: EventEmitter<Events>; output: string[] } {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>(options);
+
+        emitter.on("foo", (a) => {
+            output.push(`foo1:${a}`);
+            if (a === 1) {
+                emitter.emit.bar();
+                emitter.emit.foo(2, true);
+            }
+        });
+        emitter.on("foo", (a) => {
+            output.push(`foo2:${a}`);
+        });
+        emitter.on("bar", () => {
+            output.push("bar");
+        });
+
+        return { emitter, output };
+    }
+
+    test("Nested emits are delivered immediately by default", () => {
+        const { emitter, output } = createReentrantEmitter();
+
+        emitter.emit.foo(1, true);
+
+        expect(output).toEqual(["foo1:1", "bar", "foo1:2", "foo2:2", "foo2:1"]);
+    });
+
+    test("Nested emits are delivered after the current emit in 'queue' mode", () => {
+        const { emitter, output } = createReentrantEmitter({
+            reentrancy: "queue",
+        });
+
+        emitter.emit.foo(1, true);
+
+        expect(output).toEqual(["foo1:1", "foo2:1", "bar", "foo1:2", "foo2:2"]);
+    });
+
+    test("Queued emits are delivered to handlers subscribed before they start", () => {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>({ reentrancy: "queue" });
+
+        emitter.on("foo", () => {
+            output.push("foo");
+            emitter.emit.bar();
+            emitter.on("bar", () => {
+                output.push("late bar");
+            });
+        });
+
+        emitter.emit.foo(1, true);
+
+        // The queued "bar" emit starts after the handler subscribed to it
+        expect(output).toEqual(["foo", "late bar"]);
+    });
+
+    test("'queue' mode rethrows the first error after delivering queued emits", () => {
+        const error1 = new Error("first");
+        const error2 = new Error("second");
+        const bar = jest.fn();
+        const emitter = new EventEmitter<Events>({ reentrancy: "queue" });
+
+        emitter.on("foo", () => {
+            emitter.emit.bar();
+            throw error1;
+        });
+        emitter.on("bar", () => {
+            throw error2;
+        });
+        emitter.on("bar", bar);
+
+        expect(() => emitter.emit.foo(1, true)).toThrow(error1);
+        expect(bar).toHaveBeenCalledTimes(1);
+
+        // Not stuck delivering
+        expect(() => emitter.emit.bar()).toThrow(error2);
+        expect(bar).toHaveBeenCalledTimes(2);
+    });
+
+    test("'queue' mode delays async emits made by handlers", async () => {
+        const output: string[] = [];
+        const emitter = new EventEmitter<Events>({ reentrancy: "queue" });
+        let promise: Promise<void> | undefined;
+
+        emitter.on("foo", () => {
+            promise = emitter.emitAsync.bar();
+            output.push("foo1");
+        });
+        emitter.on("foo", () => {
+            output.push("foo2");
+        });
+        emitter.on("bar", () => {
+            output.push("bar");
+        });
+
+        emitter.emit.foo(1, true);
+        expect(output).toEqual(["foo1", "foo2", "bar"]);
+        await expect(promise).resolves.toBeUndefined();
+    });
+});
+
+describe("Maximum emit depth", () => {
+    test("Runaway recursion throws an EmitDepthError", () => {
+        const emitter = new EventEmitter<Events>();
+        let callCount = 0;
+        emitter.on("bar", () => {
+            ++callCount;
+            emitter.emit.bar();
+        });
+
+        let thrown: unknown;
+        try {
+            emitter.emit.bar();
+        } catch (error) {
+            thrown = error;
+        }
+
+        expect(thrown).toBeInstanceOf(EmitDepthError);
+        const error = thrown as EmitDepthError;
+        expect(error.eventName).toBe("bar");
+        expect(error.maxEmitDepth).toBe(100);
+        expect(error.eventChain).toHaveLength(101);
+        expect(error.message).toBe(
+            'Exceeded 100 nested emit(s) of "bar" via: "bar" -> "bar"'
+        );
+        expect(callCount).toBe(100);
+    });
+
+    test("The error names the cycle of events", () => {
+        const emitter = new EventEmitter<Events>({ maxEmitDepth: 2 });
+        emitter.on("foo", () => emitter.emit.bar());
+        emitter.on("bar", () => emitter.emit[baz]());
+        emitter.on(baz, () => emitter.emit.bar());
+
+        let thrown: unknown;
+        try {
+            emitter.emit.foo(42, true);
+        } catch (error) {
+            thrown = error;
+        }
+
+        expect((thrown as EmitDepthError).eventChain).toEqual([
+            "foo",
+            "bar",
+            baz,
+            "bar",
+            baz,
+            "bar",
+        ]);
+        expect((thrown as EmitDepthError).message).toBe(
+            'Exceeded 2 nested emit(s) of "bar" via: "bar" -> "Symbol(baz)" -> "bar"'
+        );
+    });
+
+    test("The depth is tracked per event", () => {
+        const emitter = new EventEmitter<Events>({ maxEmitDepth: 1 });
+        const bazHandler = jest.fn();
+        emitter.on("foo", () => emitter.emit.bar());
+        emitter.on("bar", () => emitter.emit[baz]());
+        emitter.on(baz, bazHandler);
+
+        emitter.emit.foo(42, true);
+        emitter.emit.foo(42, true);
+
+        expect(bazHandler).toHaveBeenCalledTimes(2);
+    });
+
+    test("The error is reported with the 'report' handler error policy", () => {
+        const onHandlerError = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            maxEmitDepth: 3,
+            handlerErrorPolicy: "report",
+            onHandlerError,
+        });
+        emitter.on("bar", () => emitter.emit.bar());
+
+        expect(() => emitter.emit.bar()).not.toThrow();
+
+        expect(onHandlerError).toHaveBeenCalledTimes(1);
+        expect(onHandlerError.mock.calls[0][0]).toBeInstanceOf(EmitDepthError);
+        expect(onHandlerError.mock.calls[0][1]).toBe("bar");
+    });
+
+    test("Runaway chains of queued emits throw with the 'queue' reentrancy", () => {
+        const emitter = new EventEmitter<Events>({
+            reentrancy: "queue",
+            maxEmitDepth: 5,
+        });
+        let callCount = 0;
+        emitter.on("foo", () => emitter.emit.bar());
+        emitter.on("bar", () => {
+            ++callCount;
+            emitter.emit.bar();
+        });
+
+        let thrown: unknown;
+        try {
+            emitter.emit.foo(42, true);
+        } catch (error) {
+            thrown = error;
+        }
+
+        expect(thrown).toBeInstanceOf(EmitDepthError);
+        expect((thrown as EmitDepthError).eventChain).toEqual([
+            "foo",
+            "bar",
+            "bar",
+            "bar",
+            "bar",
+            "bar",
+            "bar",
+        ]);
+        expect(callCount).toBe(5);
+
+        // Each queued emit has its own chain, which starts over with each emit
+        callCount = 0;
+        emitter.on("foo", () => emitter.emit.bar());
+        expect(() => emitter.emit.foo(42, true)).toThrow(EmitDepthError);
+        expect(callCount).toBe(10);
+    });
+
+    test("Queued async emits are guarded too", async () => {
+        const emitter = new EventEmitter<Events>({
+            reentrancy: "queue",
+            maxEmitDepth: 3,
+        });
+        const promises: Promise<void>[] = [];
+        emitter.on("bar", () => {
+            promises.push(emitter.emitAsync.bar());
+        });
+
+        emitter.emit.bar();
+
+        expect(promises).toHaveLength(3);
+        await expect(promises[1]).resolves.toBeUndefined();
+        await expect(promises[2]).rejects.toBeInstanceOf(EmitDepthError);
+    });
+
+    test("Async emits are guarded too", async () => {
+        const emitter = new EventEmitter<Events>({ maxEmitDepth: 3 });
+        emitter.on("bar", () => emitter.emitAsync.bar());
+
+        await expect(emitter.emitAsync.bar()).rejects.toBeInstanceOf(
+            EmitDepthError
+        );
+    });
+
+    test("Can be disabled", () => {
+        const emitter = new EventEmitter<Events>({ maxEmitDepth: Infinity });
+        let depth = 0;
+        emitter.on("bar", () => {
+            if (++depth < 200) {
+                emitter.emit.bar();
+            }
+        });
+
+        emitter.emit.bar();
+        expect(depth).toBe(200);
+    });
+});
+
+describe("Listener leak detection", () => {
+    test("Reports an event with more than maxListeners handlers once", () => {
+        const onListenerLeak = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            maxListeners: 2,
+            onListenerLeak,
+        });
+
+        emitter.on("foo", jest.fn());
+        emitter.on("foo", jest.fn());
+        expect(onListenerLeak).not.toHaveBeenCalled();
+
+        emitter.on("foo", jest.fn());
+        emitter.on("foo", jest.fn());
+        expect(onListenerLeak).toHaveBeenCalledTimes(1);
+        expect(onListenerLeak).toHaveBeenCalledWith({
+            eventName: "foo",
+            count: 3,
+            maxListeners: 2,
+            stacks: undefined,
+        });
+
+        // Other events are reported separately
+        emitter.on("bar", jest.fn());
+        emitter.on("bar", jest.fn());
+        emitter.on("bar", jest.fn());
+        expect(onListenerLeak).toHaveBeenCalledTimes(2);
+        expect(onListenerLeak.mock.calls[1][0].eventName).toBe("bar");
+    });
+
+    test("Handlers of all events are not counted", () => {
+        const onListenerLeak = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            maxListeners: 1,
+            onListenerLeak,
+        });
+
+        emitter.onAny(jest.fn());
+        emitter.onAny(jest.fn());
+        emitter.on("foo", jest.fn());
+
+        expect(onListenerLeak).not.toHaveBeenCalled();
+    });
+
+    test("Cancelled subscriptions are not counted", () => {
+        const onListenerLeak = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            maxListeners: 1,
+            onListenerLeak,
+        });
+
+        emitter.on("foo", jest.fn())();
+        emitter.on("foo", jest.fn())();
+        emitter.on("foo", jest.fn());
+
+        expect(onListenerLeak).not.toHaveBeenCalled();
+    });
+
+    test("Includes stack traces of subscriptions if enabled", () => {
+        const onListenerLeak = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            maxListeners: 1,
+            onListenerLeak,
+            captureSubscriptionStacks: true,
+        });
+
+        emitter.on("foo", jest.fn());
+        emitter.on("foo", jest.fn());
+
+        const { stacks } = onListenerLeak.mock.calls[0][0];
+        expect(stacks).toHaveLength(2);
+        expect(stacks[0]).toContain("EventEmitter.test.ts");
+    });
+
+    test("Logs to console.warn by default", () => {
+        const consoleWarn = jest
+            .spyOn(console, "warn")
+            .mockImplementation(() => undefined);
+        const emitter = new EventEmitter<Events>({ maxListeners: 1 });
+
+        try {
+            emitter.on("foo", jest.fn());
+            emitter.on("foo", jest.fn());
+
+            expect(consoleWarn).toHaveBeenCalledTimes(1);
+            expect(consoleWarn.mock.calls[0][0]).toBe(
+                'Possible listener leak: 2 handlers subscribed to event "foo" (maxListeners: 1)'
+            );
+        } finally {
+            consoleWarn.mockRestore();
+        }
+    });
+});
+
+describe("Interceptors", () => {
+    test("Can change the arguments of emits", () => {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn();
+        emitter.on("foo", foo);
+        emitter.use((...emit) => {
+            if (emit[0] === "foo") {
+                emit[2]([emit[1][0] * 2, emit[1][1]]);
+            } else {
+                emit[2]();
+            }
+        });
+
+        emitter.emit.foo(21, true);
+
+        expect(foo).toHaveBeenCalledWith(42, true);
+    });
+
+    test("Can veto emits", () => {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn();
+        const bar = jest.fn();
+        emitter.on("foo", foo);
+        emitter.on("bar", bar);
+        emitter.use((eventName, args, next) => {
+            if (eventName !== "bar") {
+                next();
+            }
+        });
+
+        emitter.emit.foo(42, true);
+        emitter.emit.bar();
+
+        expect(foo).toHaveBeenCalledTimes(1);
+        expect(bar).not.toHaveBeenCalled();
+    });
+
+    test("Are called in the order they were added", () => {
+        const emitter = new EventEmitter<Events>();
+        const calls: string[] = [];
+        emitter.on("bar", () => {
+            calls.push("handler");
+        });
+        emitter.use((eventName, args, next) => {
+            calls.push("first");
+            next();
+            calls.push("first done");
+        });
+        emitter.use((eventName, args, next) => {
+            calls.push("second");
+            next();
+        });
+
+        emitter.emit.bar();
+
+        expect(calls).toEqual(["first", "second", "handler", "first done"]);
+    });
+
+    test("Ignore calls of next() after the first", () => {
+        const emitter = new EventEmitter<Events>();
+        const bar = jest.fn();
+        emitter.on("bar", bar);
+        emitter.use((eventName, args, next) => {
+            next();
+            next();
+        });
+
+        emitter.emit.bar();
+
+        expect(bar).toHaveBeenCalledTimes(1);
+    });
+
+    test("Can be removed", () => {
+        const emitter = new EventEmitter<Events>();
+        const bar = jest.fn();
+        emitter.on("bar", bar);
+        const veto = jest.fn();
+        const remove = emitter.use(veto);
+
+        emitter.emit.bar();
+        remove();
+        remove();
+        emitter.emit.bar();
+
+        expect(veto).toHaveBeenCalledTimes(1);
+        expect(bar).toHaveBeenCalledTimes(1);
+    });
+
+    test("Removing an interceptor during an emit does not affect the emit", () => {
+        const emitter = new EventEmitter<Events>();
+        const second = jest.fn((eventName, args, next) => next());
+        const removeSecond = { current: (): void => undefined };
+        emitter.use((eventName, args, next) => {
+            removeSecond.current();
+            next();
+        });
+        removeSecond.current = emitter.use(second);
+
+        emitter.emit.bar();
+        emitter.emit.bar();
+
+        expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    test("Intercept async emits", async () => {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn(async () => undefined);
+        emitter.on("foo", foo);
+        emitter.use((...emit) => {
+            if (emit[0] === "foo" && emit[1][1]) {
+                emit[2]([emit[1][0] + 1, true]);
+            }
+        });
+
+        await emitter.emitAsync.foo(41, true);
+        // Vetoed async emits resolve immediately
+        await emitter.emitAsync.foo(41, false);
+
+        expect(foo.mock.calls).toEqual([[42, true]]);
+    });
+
+    test("Errors thrown by interceptors propagate to the emitter", async () => {
+        const emitter = new EventEmitter<Events>();
+        const error = new Error("Not allowed");
+        emitter.use(() => {
+            throw error;
+        });
+
+        expect(() => emitter.emit.bar()).toThrow(error);
+        await expect(emitter.emitAsync.bar()).rejects.toBe(error);
+    });
+
+    test("Calling next() after the interceptor returned throws", async () => {
+        const emitter = new EventEmitter<Events>();
+        const bar = jest.fn();
+        emitter.on("bar", bar);
+        let continueLater: () => void = () => undefined;
+        emitter.use((eventName, args, next) => {
+            continueLater = next;
+        });
+
+        emitter.emit.bar();
+        expect(() => continueLater()).toThrow(InterceptorNextError);
+
+        await expect(emitter.emitAsync.bar()).resolves.toBeUndefined();
+        expect(() => continueLater()).toThrow(InterceptorNextError);
+
+        expect(bar).not.toHaveBeenCalled();
+    });
+
+    test("Intercept emits as soon as they are emitted while paused", () => {
+        const emitter = new EventEmitter<Events>();
+        const interceptor = jest.fn((eventName, args, next) => next());
+        const bar = jest.fn();
+        emitter.on("bar", bar);
+        emitter.use(interceptor);
+
+        emitter.pause();
+        emitter.emit.bar();
+        expect(interceptor).toHaveBeenCalledTimes(1);
+        expect(bar).not.toHaveBeenCalled();
+
+        emitter.resume();
+        expect(interceptor).toHaveBeenCalledTimes(1);
+        expect(bar).toHaveBeenCalledTimes(1);
+    });
+
+    test("Are removed when disposed", () => {
+        const emitter = new EventEmitter<Events>();
+        const interceptor = jest.fn();
+        emitter.use(interceptor);
+
+        emitter.dispose();
+        emitter.emit.bar();
+        emitter.use(interceptor);
+        emitter.emit.bar();
+
+        expect(interceptor).not.toHaveBeenCalled();
+    });
+});
+
+describe("invoke()", () => {
+    interface InvokeEvents {
+        validate(value: string): string | undefined;
+        getItems(): Promise<string[]>;
+        changed(): void;
+    }
+
+    test("Returns the results of the event's handlers", () => {
+        const emitter = new EventEmitter<InvokeEvents>();
+        const anyHandler = jest.fn();
+        emitter.on("validate", (value) => (value ? undefined : "Required"));
+        emitter.on("validate", (value) => `Invalid: ${value}`, {
+            priority: 1,
+        });
+        emitter.onAny(anyHandler);
+
+        expect(emitter.invoke("validate", [""])).toEqual([
+            "Invalid: ",
+            "Required",
+        ]);
+        expect(anyHandler).toHaveBeenCalledWith("validate", [""]);
+        expect(emitter.invoke("changed", [])).toEqual([]);
+    });
+
+    test("Combines results with a reducer", () => {
+        const emitter = new EventEmitter<InvokeEvents>();
+        emitter.on("validate", () => undefined);
+        emitter.on("validate", (value) => `${value}1`);
+        emitter.on("validate", (value) => `${value}2`);
+
+        expect(emitter.invoke("validate", ["a"], firstDefined)).toBe("a1");
+        expect(
+            emitter.invoke(
+                "validate",
+                ["a"],
+                fold((count, result) => (result ? count + 1 : count), 0)
+            )
+        ).toBe(2);
+        expect(emitter.invoke("changed", [], firstDefined)).toBeUndefined();
+    });
+
+    test("Is delivered immediately while paused, and is not replayed", () => {
+        const emitter = new EventEmitter<InvokeEvents>({
+            replay: { validate: 1 },
+        });
+        emitter.on("validate", (value) => value);
+
+        emitter.pause();
+        expect(emitter.invoke("validate", ["a"])).toEqual(["a"]);
+        emitter.resume();
+
+        const lateHandler = jest.fn();
+        emitter.on("validate", lateHandler);
+        expect(lateHandler).not.toHaveBeenCalled();
+    });
+
+    test("Handler errors are handled according to the policy", () => {
+        const error = new Error("Failed");
+        const onHandlerError = jest.fn();
+        const emitter = new EventEmitter<InvokeEvents>({
+            handlerErrorPolicy: "report",
+            onHandlerError,
+        });
+        emitter.on("validate", () => {
+            throw error;
+        });
+        emitter.on("validate", () => "ok");
+
+        expect(emitter.invoke("validate", ["a"])).toEqual(["ok"]);
+        expect(onHandlerError).toHaveBeenCalledWith(error, "validate", ["a"]);
+
+        const throwingEmitter = new EventEmitter<InvokeEvents>();
+        throwingEmitter.on("validate", () => {
+            throw error;
+        });
+        expect(() => throwingEmitter.invoke("validate", ["a"])).toThrow(error);
+    });
+
+    test("Rejections of async handlers are observed", async () => {
+        const error = new Error("Failed");
+        const onHandlerRejection = jest.fn();
+        const emitter = new EventEmitter<InvokeEvents>({ onHandlerRejection });
+        emitter.on("getItems", async () => {
+            throw error;
+        });
+
+        // The reducer discards the rejected Promise
+        expect(emitter.invoke("getItems", [], () => undefined)).toBeUndefined();
+        await flushPromises();
+
+        expect(onHandlerRejection).toHaveBeenCalledWith(error, "getItems", []);
+    });
+
+    test("Interceptors can change the arguments, or veto the invoke", async () => {
+        const emitter = new EventEmitter<InvokeEvents>();
+        const handler = jest.fn((value: string) => value);
+        emitter.on("validate", handler);
+        emitter.on("getItems", async () => ["a"]);
+        emitter.use((...emit) => {
+            if (emit[0] === "validate") {
+                emit[2]([emit[1][0].toUpperCase()]);
+            }
+        });
+
+        expect(emitter.invoke("validate", ["a"])).toEqual(["A"]);
+        expect(await emitter.invokeAsync("validate", ["b"])).toEqual(["B"]);
+        expect(emitter.invoke("getItems", [])).toEqual([]);
+        expect(await emitter.invokeAsync("getItems", [])).toEqual([]);
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    test("Returns no results after dispose", () => {
+        const emitter = new EventEmitter<InvokeEvents>();
+        emitter.on("validate", (value) => value);
+        emitter.dispose();
+
+        expect(emitter.invoke("validate", ["a"])).toEqual([]);
+        expect(emitter.invoke("validate", ["a"], firstDefined)).toBeUndefined();
+    });
+
+    test("invokeAsync() waits for the results of async handlers", async () => {
+        const emitter = new EventEmitter<InvokeEvents>();
+        emitter.on("getItems", async () => {
+            await flushPromises();
+            return ["a", "b"];
+        });
+        emitter.on("getItems", async () => ["c"]);
+
+        await expect(emitter.invokeAsync("getItems", [])).resolves.toEqual([
+            ["a", "b"],
+            ["c"],
+        ]);
+        await expect(
+            emitter.invokeAsync(
+                "getItems",
+                [],
+                fold((all, items) => all.concat(items || []), [] as string[])
+            )
+        ).resolves.toEqual(["a", "b", "c"]);
+    });
+
+    test("invokeAsync() collects results of serially called handlers", async () => {
+        const emitter = new EventEmitter<InvokeEvents>({
+            asyncEmitMode: "serial",
+            handlerErrorPolicy: "report",
+            onHandlerError: () => undefined,
+        });
+        emitter.on("getItems", async () => ["a"]);
+        emitter.on("getItems", async () => {
+            throw new Error("Failed");
+        });
+        emitter.on("getItems", async () => ["b"]);
+
+        await expect(emitter.invokeAsync("getItems", [])).resolves.toEqual([
+            ["a"],
+            ["b"],
+        ]);
+    });
+
+    test("invokeAsync() omits the results of failed handlers", async () => {
+        const emitter = new EventEmitter<InvokeEvents>({
+            handlerErrorPolicy: "report",
+            onHandlerError: () => undefined,
+        });
+        emitter.on("getItems", async () => {
+            throw new Error("Failed");
+        });
+        emitter.on("getItems", async () => ["a"]);
+
+        await expect(emitter.invokeAsync("getItems", [])).resolves.toEqual([
+            ["a"],
+        ]);
+    });
+});
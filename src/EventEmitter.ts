@@ -1,14 +1,164 @@
 import { AbstractEventSource } from "./AbstractEventSource";
 import {
+    EventHandlerAggregateError,
+    DisposedError,
+    EmitDepthError,
+    InterceptorNextError,
+} from "./errors";
+import { disposeSymbol, toSubscriptionCanceller } from "./disposable";
+import { Subscription, SubscriptionList } from "./SubscriptionList";
+import { getTeardown } from "./teardown";
+import { isOneShot } from "./once";
+import { logError, logWarning, now } from "./globals";
+import {
+    endTracedEmit,
+    getGlobalTracer,
+    startTracedEmit,
+    TracedEmit,
+} from "./tracing";
+import {
+    AfterDisposeBehavior,
+    AnyAsyncEventFunction,
     AnyEventFunction,
     AnyEventHandler,
+    AnyEventHandlerOf,
+    AsyncEmitMode,
+    PauseMode,
+    ReentrancyMode,
+    CoalesceStrategy,
+    BatchErrorPolicy,
+    AsyncEvents,
+    EmitEvents,
+    EmitInterceptor,
+    EventEmitterOptions,
     EventsConstraint,
     EventHandler,
     EventNames,
     EventSource,
+    HandlerErrorPolicy,
+    HandlerErrorReporter,
+    InvokeAsyncResult,
+    InvokeReducer,
+    InvokeResult,
+    ListenerLeakReporter,
+    ListenerLeakWarning,
+    SubscriberLifecycleHooks,
+    CancelFunction,
     SubscriptionCanceller,
+    SubscriptionOptions,
+    Trace,
+    Tracer,
 } from "./types.private";
 
+/**
+ * An emit that was queued while an {@link EventEmitter} was paused, or while
+ * another emit was being delivered.
+ */
+interface QueuedEmit {
+    readonly eventName: string | symbol;
+    readonly args: unknown[];
+    /**
+     * Settles the Promise returned by {@link EventEmitter#emitAsync}, if the
+     * event was emitted asynchronously.
+     */
+    readonly settle?: (promise: Promise<void>) => void;
+    /**
+     * Names of the events whose delivery led to this emit, ending with this
+     * emit's event, if it was queued during another emit with the "queue"
+     * {@link ReentrancyMode}.
+     */
+    readonly chain?: (string | symbol)[];
+}
+
+/**
+ * An emit (possibly coalesced from multiple emits) collected during a batch.
+ */
+interface BatchedEmit {
+    readonly eventName: string | symbol;
+    args: unknown[];
+    /**
+     * Settle the Promises returned by {@link EventEmitter#emitAsync} for all
+     * emits that were coalesced into this one.
+     */
+    readonly settles: ((promise: Promise<void>) => void)[];
+}
+
+/**
+ * An {@link EmitInterceptor} of any Events interface.
+ */
+type AnyEmitInterceptor = (
+    eventName: string | symbol,
+    args: unknown[],
+    next: (args?: unknown[]) => void
+) => void;
+
+/**
+ * Type of the target object of the Proxies used to implement
+ * {@link EventEmitter#emit} and {@link EventEmitter#emitAsync}, which caches
+ * the emit method implementation for each event.
+ */
+type EmitProxyTarget<Events extends EventsConstraint<Events>> = Partial<
+    Record<EventNames<Events>, AnyEventFunction>
+>;
+
+/**
+ * Subscription canceller returned when subscribing to a disposed EventEmitter.
+ */
+function noop(): void {
+    // Nothing to cancel
+}
+
+/**
+ * Creates an object to use as a map keyed by event name, optionally with a
+ * copy of the own properties of another such object.
+ * It has no prototype, so that event names like "toString" or "constructor"
+ * do not resolve to members of `Object.prototype`.
+ * @param source - An object whose properties are copied, if any.
+ * @returns The new object.
+ */
+function createEventMap<T extends object>(source?: T): T {
+    const eventMap = Object.create(null) as T;
+
+    if (source) {
+        const keys: (string | symbol)[] = Object.getOwnPropertyNames(source);
+
+        for (const key of keys.concat(Object.getOwnPropertySymbols(source))) {
+            (eventMap as any)[key] = (source as any)[key];
+        }
+    }
+
+    return eventMap;
+}
+
+/**
+ * Default implementation of {@link EventEmitterOptions#onHandlerError}.
+ * @param error - The error thrown by the event handler.
+ * @param eventName - The name of the event that was being emitted.
+ */
+function reportHandlerError(error: unknown, eventName: string | symbol): void {
+    logError(`Error in handler for event "${String(eventName)}":`, error);
+}
+
+/**
+ * Default implementation of {@link EventEmitterOptions#onListenerLeak}.
+ * @param warning - Details of the possible leak.
+ */
+function reportListenerLeak<Events extends EventsConstraint<Events>>(
+    warning: ListenerLeakWarning<Events>
+): void {
+    const message = `Possible listener leak: ${
+        warning.count
+    } handlers subscribed to event "${String(
+        warning.eventName
+    )}" (maxListeners: ${warning.maxListeners})`;
+
+    if (warning.stacks) {
+        logWarning(message, warning.stacks.join("\n\n"));
+    } else {
+        logWarning(message);
+    }
+}
+
 /**
  * Manages subscriptions to, and emitting of, events.
  * - Call methods of {@link EventEmitter#emit} to emit calls to all
@@ -82,20 +232,157 @@ export class EventEmitter<
      * For each event defined by the Events interface, a method of the same name,
      * and same parameters signature, exists on this object that will call
      * all subscribed handlers of that event.
+     *
+     * The handlers that are called are those subscribed when the emit starts:
+     * - A handler subscribed during the emit is not called by that emit.
+     * - A handler cancelled during the emit is not called by that emit, unless
+     *   it was already called before being cancelled.
+     *
+     * Events emitted by handlers during an emit are delivered immediately, or
+     * after the current emit, according to the
+     * [reentrancy]{@link EventEmitterOptions#reentrancy} option.
+     *
+     * The emit methods return nothing, even for events that declare a return
+     * type. See {@link #invoke} to collect the results of handlers.
      */
-    public readonly emit: Readonly<Events>;
+    public readonly emit: EmitEvents<Events>;
 
     /**
-     * Map of event name -> map of subscription ID -> event handler
+     * A convenient proxy for emitting to all subscribed handlers of any event,
+     * and waiting for all of them to complete.
+     * For each event defined by the Events interface, a method of the same name,
+     * and same parameters, exists on this object that will call all subscribed
+     * handlers of that event, returning a Promise that resolves after all
+     * handlers (including async handlers) have completed.
+     *
+     * Handlers are either all started immediately, or called one at a time,
+     * depending on the [asyncEmitMode]{@link EventEmitterOptions#asyncEmitMode}
+     * option. As with {@link #emit}, the handlers that are called are those
+     * subscribed when the emit starts, except handlers cancelled before their
+     * turn.
+     *
+     * Errors thrown (or Promises rejected) by handlers are handled according
+     * to the [handlerErrorPolicy]{@link EventEmitterOptions#handlerErrorPolicy}
+     * option, except that the returned Promise is rejected rather than the
+     * error being thrown.
+     */
+    public readonly emitAsync: AsyncEvents<Events>;
+
+    /**
+     * Map of event name -> list of subscriptions to the event.
+     * Events without any subscriptions have no list, so that the lists of
+     * events are released when their last subscription is cancelled.
      */
     private readonly handlers: Partial<
-        Record<EventNames<Events>, Record<string, AnyEventHandler>>
-    > = {};
+        Record<EventNames<Events>, SubscriptionList>
+    > = createEventMap();
+
+    /**
+     * List of subscriptions to all events (see {@link #onAny}).
+     * Undefined if there are no such subscriptions.
+     */
+    private anyHandlers: SubscriptionList | undefined;
+
+    /**
+     * Total number of subscriptions to all events.
+     */
+    private subscriptionCount = 0;
+
+    /**
+     * Number of calls to {@link #pause} that have not yet been matched by a
+     * call to {@link #resume}.
+     */
+    private pauseCount = 0;
+
+    /**
+     * Emits queued while paused, in the order they were emitted.
+     */
+    private readonly pauseQueue: QueuedEmit[] = [];
+
+    /**
+     * Map of event name -> number of nested emits of the event currently
+     * being delivered. Events that are not being delivered have no entry.
+     */
+    private readonly emitDepths: Partial<
+        Record<EventNames<Events>, number>
+    > = createEventMap();
+
+    /**
+     * Names of the events currently being delivered, from the outermost emit
+     * to the innermost nested emit.
+     */
+    private readonly emitChain: EventNames<Events>[] = [];
+
+    /**
+     * True while an emit is being delivered with the "queue"
+     * {@link ReentrancyMode}.
+     */
+    private isDelivering = false;
+
+    /**
+     * Emits made while an emit was being delivered with the "queue"
+     * {@link ReentrancyMode}, in the order they were emitted.
+     */
+    private readonly deliveryQueue: QueuedEmit[] = [];
+
+    /**
+     * Names of the events whose delivery led to the emit currently being
+     * delivered with the "queue" {@link ReentrancyMode}, ending with its
+     * event. Empty while not delivering.
+     */
+    private deliveryChain: (string | symbol)[] = [];
+
+    /**
+     * Events that have already been reported as possible listener leaks.
+     */
+    private readonly reportedLeaks: Partial<
+        Record<EventNames<Events>, true>
+    > = createEventMap();
+
+    /**
+     * Number of calls to {@link #batch} in progress.
+     */
+    private batchDepth = 0;
+
+    /**
+     * Emits collected during the current batch, in order.
+     */
+    private batchedEmits: BatchedEmit[] = [];
+
+    /**
+     * Map of event name -> the emit of the event collected during the current
+     * batch, for events that are coalesced.
+     */
+    private coalescedEmits: Partial<
+        Record<EventNames<Events>, BatchedEmit>
+    > = createEventMap();
+
+    /**
+     * Map of event name -> arguments of the most recent emits of the event,
+     * for events with replay enabled (see {@link EventEmitterOptions#replay}).
+     *
+     * NOTE: The lists are never modified. They are replaced with modified
+     *       copies, so that a replay in progress can safely continue
+     *       iterating the list as it was when the replay started.
+     */
+    private replayBuffers: Partial<
+        Record<EventNames<Events>, unknown[][]>
+    > = createEventMap();
+
+    /**
+     * True after {@link #dispose} has been called.
+     */
+    private disposed = false;
 
     /**
-     * Incrementing number used to create unique subscription IDs.
+     * Interceptors of all emits (see {@link #use}), in the order they were
+     * added.
+     *
+     * NOTE: The list is never modified. It is replaced with a modified copy,
+     *       so that an emit in progress can safely continue iterating the
+     *       list as it was when the emit started.
      */
-    private nextSubscriptionIdNumber = 0;
+    private interceptors: AnyEmitInterceptor[] = [];
 
     /**
      * Creates an implementation of an event emit method for the
@@ -115,142 +402,1827 @@ export class EventEmitter<
         const _this = this;
         // tslint:disable:only-arrow-functions
         return function (): void {
-            const eventSubscriptions = _this.handlers[eventName];
+            if (_this.interceptors.length) {
+                _this.intercept(
+                    eventName,
+                    Array.prototype.slice.call(arguments),
+                    (args) => _this.callHandlers(eventName, args)
+                );
+            } else {
+                _this.callHandlers(eventName, arguments);
+            }
+        };
+    }
+
+    /**
+     * Passes an emit through all interceptors (see {@link #use}), then
+     * delivers it unless an interceptor vetoed it.
+     *
+     * @param eventName - The name of the event being emitted.
+     * @param args - The arguments the event was emitted with.
+     * @param deliver - Delivers the emit, with the arguments passed to `next`
+     *        by the last interceptor.
+     * @throws InterceptorNextError (from `next`) if an interceptor calls
+     *         `next` after it returned, because the emit can no longer be
+     *         delivered as part of the emitter's call.
+     */
+    private intercept(
+        eventName: EventNames<Events>,
+        args: unknown[],
+        deliver: (args: unknown[]) => void
+    ): void {
+        const interceptors = this.interceptors;
 
-            if (!eventSubscriptions) {
+        const next = (index: number, nextArgs: unknown[]): void => {
+            if (index === interceptors.length) {
+                deliver(nextArgs);
                 return;
             }
 
-            // NOTE: Avoiding for(in) of Object.keys().forEach() here to
-            //       optimize the transpiled code.
-            for (const subscriptionId in eventSubscriptions) {
-                if (!eventSubscriptions.hasOwnProperty(subscriptionId)) {
-                    continue;
-                }
+            let isContinued = false;
+            let isReturned = false;
 
-                eventSubscriptions[subscriptionId].apply(
-                    undefined,
-                    // Ugly typecast necessary to directly pass arguments
-                    // through rather than spreading arguments (...arguments),
-                    // which would transpile to unnecessary creation of a new array.
-                    (arguments as unknown) as any[]
-                );
+            try {
+                interceptors[index](eventName, nextArgs, (changedArgs) => {
+                    if (isContinued) {
+                        return;
+                    }
+
+                    if (isReturned) {
+                        throw new InterceptorNextError(eventName);
+                    }
+
+                    isContinued = true;
+                    next(index + 1, changedArgs || nextArgs);
+                });
+            } finally {
+                isReturned = true;
             }
         };
+
+        next(0, args);
     }
 
     /**
-     * An implementation for the `get` handler of a Proxy used to implement
-     * the {@link #emit} property.
+     * Implementation of the emit methods of {@link #emit}.
      *
-     * Dynamically creates/caches/returns an implementation of an "emit" method
-     * for the specified event.
-     * @param target - A reference to the `emit` property.
-     * @param eventName - The name of the event whose emit method is being accessed.
-     * @returns The implementation of the emit method for the specified event.
+     * @param eventName - The name of the event to emit.
+     * @param args - The arguments to pass to all handlers.
      */
-    private emitProxyGet(
-        target: Events,
-        eventName: EventNames<Events>
-    ): AnyEventFunction {
-        // If this eventName property has never been accessed before, then create
-        // and cache its implementation.
-        if (!target[eventName]) {
-            // NOTE: Avoiding using an arrow function here to optimize the
-            //       transpiled code.
-            target[eventName] = this.createEventHandlerCaller(
-                eventName
-            ) as Events[EventNames<Events>];
+    private callHandlers(
+        eventName: EventNames<Events>,
+        args: ArrayLike<unknown>
+    ): void {
+        if (this.checkDisposed()) {
+            return;
+        }
+
+        if (this.batchDepth) {
+            this.addToBatch(eventName, Array.prototype.slice.call(args));
+            return;
+        }
+
+        if (this.pauseCount) {
+            if (this.pauseMode === "queue") {
+                this.pauseQueue.push({
+                    eventName,
+                    args: Array.prototype.slice.call(args),
+                });
+            }
+
+            return;
         }
 
-        return target[eventName];
+        if (this.reentrancy === "queue") {
+            this.deliverBreadthFirst(eventName, args);
+        } else {
+            this.deliver(eventName, args);
+        }
     }
 
     /**
-     * @param options - Configuration options for the events.
+     * Delivers an emit to all handlers of the event.
+     *
+     * @param eventName - The name of the event to emit.
+     * @param args - The arguments to pass to all handlers.
+     * @param results - Collects the results of the handlers of the event (not
+     *        of handlers of all events), if the event is invoked (see
+     *        {@link #invoke}).
      */
-    public constructor() {
-        super();
-        this.emit = new Proxy({} as Events, {
-            get: this.emitProxyGet.bind(this),
-        });
+    private deliver(
+        eventName: EventNames<Events>,
+        args: ArrayLike<unknown>,
+        results?: unknown[]
+    ): void {
+        this.enterEmit(eventName);
+
+        // Replaying an invoke would discard the results
+        if (!results) {
+            this.recordReplay(eventName, args);
+        }
+
+        const tracedEmit = this.isTraced() ? startTracedEmit() : undefined;
+        const handlerCount = tracedEmit ? this.listenerCount(eventName) : 0;
+        const eventSubscriptions: SubscriptionList | undefined = this.handlers[
+            eventName
+        ];
+        const anySubscriptions = this.anyHandlers;
+
+        // Errors thrown by handlers are collected so that one failing
+        // handler does not prevent the remaining handlers from being called.
+        let errors: unknown[] | undefined;
+
+        if (eventSubscriptions) {
+            const subscriptions = eventSubscriptions.acquire();
+            errors = this.callSubscriptions(
+                eventName,
+                subscriptions,
+                args,
+                args,
+                errors,
+                results
+            );
+            eventSubscriptions.release(subscriptions);
+        }
+
+        if (anySubscriptions) {
+            const subscriptions = anySubscriptions.acquire();
+            errors = this.callSubscriptions(
+                eventName,
+                subscriptions,
+                [eventName, Array.prototype.slice.call(args)],
+                args,
+                errors
+            );
+            anySubscriptions.release(subscriptions);
+        }
+
+        this.exitEmit(eventName);
+
+        if (tracedEmit) {
+            endTracedEmit(tracedEmit);
+            this.traceEmit(tracedEmit, eventName, args, handlerCount, false);
+        }
+
+        if (errors) {
+            this.handleErrors(eventName, errors, args);
+        }
     }
 
     /**
-     * Creates a "readonly" version of this EventEmitter as an EventSource
-     * implementation to expose only the means to subscribe to events, without
-     * exposing the means to emit events.
-     *
-     * See also: {@link EventSourceType}
+     * Tracks the start of delivering an emit, guarding against runaway
+     * recursion of emits.
+     * Must be followed by a call to {@link #exitEmit} after all handlers have
+     * been called, unless it throws.
      *
-     * @returns - A new EventSource that can be used subscribe to this
-     *            EventEmitter's events..
-     * @example
-     * ```
-     * class MyClass {
-     *     // Private EventEmitter gives your class the ability to emit
-     *     // events.
-     *     private emitter = new EventEmitter<{
-     *         nameChanged(name: string): void;
-     *     }>();
+     * @param eventName - The name of the event being emitted.
+     * @throws EmitDepthError if the event is already being delivered by the
+     *         maximum number of nested emits.
+     */
+    private enterEmit(eventName: EventNames<Events>): void {
+        const currentDepth: number | undefined = this.emitDepths[eventName];
+        const depth = (currentDepth || 0) + 1;
+
+        if (depth > this.maxEmitDepth) {
+            throw new EmitDepthError(
+                this.emitChain.concat([eventName]),
+                this.maxEmitDepth
+            );
+        }
+
+        this.emitDepths[eventName] = depth;
+        this.emitChain.push(eventName);
+    }
+
+    /**
+     * Tracks the end of delivering an emit. See {@link #enterEmit}.
      *
-     *     // Expose the EventEmitter publicly, but only as an EventSource,
-     *     // so external code can only subscribe to events.
-     *     // Using toEventSource() allows the `events` field's type to be
-     *     // conveniently inferred, rather than needing to manually specify its
-     *     // type correctly.
-     *     public events = this.emitter.toEventSource();
-     * }
-     * ```
+     * @param eventName - The name of the event that was emitted.
      */
-    public toEventSource(): EventSource<Events> {
-        return {
-            on: this.on.bind(this),
-            once: this.once.bind(this),
-            onceAsPromise: this.onceAsPromise.bind(this),
-            subscribe: this.subscribe.bind(this),
-        };
+    private exitEmit(eventName: EventNames<Events>): void {
+        this.emitChain.pop();
+
+        const depth = (this.emitDepths[eventName] as number) - 1;
+
+        if (depth) {
+            this.emitDepths[eventName] = depth;
+        } else {
+            delete this.emitDepths[eventName];
+        }
     }
 
     /**
-     * @inheritdoc
+     * Delivers an emit with the "queue" {@link ReentrancyMode}: if an emit is
+     * already being delivered, this emit is queued, to be delivered after it.
+     * If delivering throws errors (see
+     * {@link EventEmitterOptions#handlerErrorPolicy}), the first error is
+     * rethrown after all queued emits have been delivered.
+     *
+     * @param eventName - The name of the event to emit.
+     * @param args - The arguments to pass to all handlers.
+     * @throws EmitDepthError if the emit is queued, and would exceed the
+     *         maximum number of emits of the event in a chain of queued emits
+     *         (see {@link #getQueuedChain}).
      */
-    public on<EventName extends EventNames<Events>>(
-        eventName: EventName,
-        handler: EventHandler<Events[EventName]>
-    ): SubscriptionCanceller {
-        const subscriptionId = `subscription_${this
-            .nextSubscriptionIdNumber++}`;
+    private deliverBreadthFirst(
+        eventName: EventNames<Events>,
+        args: ArrayLike<unknown>
+    ): void {
+        if (this.isDelivering) {
+            this.deliveryQueue.push({
+                eventName,
+                args: Array.prototype.slice.call(args),
+                chain: this.getQueuedChain(eventName),
+            });
+            return;
+        }
+
+        this.isDelivering = true;
+        this.deliveryChain = [eventName];
+
+        let errors: unknown[] | undefined;
 
-        let eventHandlers = this.handlers[eventName];
-        if (!eventHandlers) {
-            eventHandlers = this.handlers[eventName] = {};
+        try {
+            this.deliver(eventName, args);
+        } catch (error) {
+            errors = [error];
+        }
+
+        while (this.deliveryQueue.length) {
+            const queuedEmit = this.deliveryQueue.shift() as QueuedEmit;
+            const queuedEventName = queuedEmit.eventName as EventNames<Events>;
+
+            this.deliveryChain = queuedEmit.chain || [queuedEventName];
+
+            if (queuedEmit.settle) {
+                queuedEmit.settle(
+                    this.deliverAsync(
+                        queuedEventName,
+                        queuedEmit.args as Parameters<
+                            Events[EventNames<Events>]
+                        >
+                    )
+                );
+                continue;
+            }
+
+            try {
+                this.deliver(queuedEventName, queuedEmit.args);
+            } catch (error) {
+                (errors || (errors = [])).push(error);
+            }
         }
 
-        eventHandlers[subscriptionId] = handler;
+        this.isDelivering = false;
+        this.deliveryChain = [];
 
-        return this.cancel.bind(this, subscriptionId);
+        if (errors) {
+            throw errors[0];
+        }
     }
 
     /**
-     * Cancels a subscription.
+     * Gets the chain of events that leads to an emit that is queued during
+     * another emit with the "queue" {@link ReentrancyMode}, guarding against
+     * runaway chains of emits.
+     * Queued emits are not nested, so a handler that (indirectly) emits its
+     * own event would otherwise queue emits forever.
      *
-     * Silently ignores invalid subscription IDs (e.g., cancelling a
-     * subscription that was already cancelled).
+     * @param eventName - The name of the event being queued.
+     * @returns The names of the events whose delivery led to the emit, ending
+     *          with its event.
+     * @throws EmitDepthError if the chain contains more emits of the event
+     *         than the maximum emit depth.
+     */
+    private getQueuedChain(eventName: EventNames<Events>): (string | symbol)[] {
+        const chain = this.deliveryChain.concat([eventName]);
+        let depth = 0;
+
+        for (const name of chain) {
+            if (name === eventName) {
+                ++depth;
+            }
+        }
+
+        if (depth > this.maxEmitDepth) {
+            throw new EmitDepthError(chain, this.maxEmitDepth);
+        }
+
+        return chain;
+    }
+
+    /**
+     * Collects an emit during a batch, coalescing it with a previous emit of
+     * the same event if configured.
      *
-     * @param subscriptionId - A subscription ID.
+     * @param eventName - The name of the event being emitted.
+     * @param args - The arguments the event was emitted with.
+     * @param settle - Settles the Promise returned by {@link #emitAsync}, if
+     *        the event was emitted asynchronously.
      */
-    private cancel(subscriptionId: string): void {
-        for (const eventName in this.handlers) {
-            if (this.handlers.hasOwnProperty(eventName)) {
-                const eventHandlers = this.handlers[
-                    eventName as EventNames<Events>
-                ];
+    private addToBatch(
+        eventName: EventNames<Events>,
+        args: unknown[],
+        settle?: (promise: Promise<void>) => void
+    ): void {
+        const configuredStrategy:
+            | CoalesceStrategy<AnyEventFunction>
+            | undefined = this.coalesceStrategies[eventName];
+        const strategy = configuredStrategy || "all";
+        const coalescedEmit: BatchedEmit | undefined =
+            strategy !== "all" ? this.coalescedEmits[eventName] : undefined;
 
-                if (eventHandlers) {
-                    delete eventHandlers[subscriptionId];
-                }
+        if (coalescedEmit) {
+            if (strategy === "last") {
+                coalescedEmit.args = args;
+            } else if (typeof strategy === "function") {
+                coalescedEmit.args = strategy(coalescedEmit.args, args);
+            }
+
+            if (settle) {
+                coalescedEmit.settles.push(settle);
+            }
+
+            return;
+        }
+
+        const batchedEmit: BatchedEmit = {
+            eventName,
+            args,
+            settles: settle ? [settle] : [],
+        };
+
+        this.batchedEmits.push(batchedEmit);
+
+        if (strategy !== "all") {
+            this.coalescedEmits[eventName] = batchedEmit;
+        }
+    }
+
+    /**
+     * Delivers all emits collected during the batch that just ended.
+     */
+    private flushBatch(): void {
+        const batchedEmits = this.discardBatch();
+        let errors: unknown[] | undefined;
+
+        for (const { eventName, args, settles } of batchedEmits) {
+            if (settles.length) {
+                const promise = this.callHandlersAsync(
+                    eventName as EventNames<Events>,
+                    args as Parameters<Events[EventNames<Events>]>
+                );
+                settles.forEach((settle) => settle(promise));
+                continue;
+            }
+
+            try {
+                this.callHandlers(eventName as EventNames<Events>, args);
+            } catch (error) {
+                (errors || (errors = [])).push(error);
             }
         }
+
+        if (errors) {
+            throw errors[0];
+        }
+    }
+
+    /**
+     * Forgets all emits collected during the batch that just ended.
+     * Promises returned by {@link #emitAsync} for the emits are resolved.
+     *
+     * @returns The forgotten emits.
+     */
+    private discardBatch(): BatchedEmit[] {
+        const batchedEmits = this.batchedEmits;
+        this.batchedEmits = [];
+        this.coalescedEmits = createEventMap();
+
+        for (const { settles } of batchedEmits) {
+            settles.forEach((settle) => settle(Promise.resolve()));
+        }
+
+        return batchedEmits;
+    }
+
+    /**
+     * Remembers the arguments of an emit, if replay is enabled for the event.
+     *
+     * @param eventName - The name of the event being emitted.
+     * @param args - The arguments the event was emitted with.
+     */
+    private recordReplay(
+        eventName: EventNames<Events>,
+        args: ArrayLike<unknown>
+    ): void {
+        const limit: number | undefined = this.replayLimits[eventName];
+
+        if (!limit) {
+            return;
+        }
+
+        const replayBuffer: unknown[][] | undefined = this.replayBuffers[
+            eventName
+        ];
+        this.replayBuffers[eventName] = (replayBuffer || [])
+            .concat([Array.prototype.slice.call(args)])
+            .slice(-limit);
+    }
+
+    /**
+     * Calls the handler of a new subscription with the arguments of all
+     * remembered emits of the event, in the order they were emitted.
+     * One-shot handlers (see {@link asOneShot}) are only called with the most
+     * recent emit instead, so that a wait with a predicate never accepts an
+     * emit that a more recent emit has already superseded.
+     *
+     * @param eventName - The name of the subscribed event.
+     * @param subscription - The new subscription.
+     */
+    private replayTo(
+        eventName: EventNames<Events>,
+        subscription: Subscription
+    ): void {
+        const replayBuffer: unknown[][] | undefined = this.replayBuffers[
+            eventName
+        ];
+
+        if (!replayBuffer) {
+            return;
+        }
+
+        const replayedArgs = isOneShot(subscription.handler)
+            ? replayBuffer.slice(-1)
+            : replayBuffer;
+
+        for (const args of replayedArgs) {
+            const errors = this.callSubscriptions(
+                eventName,
+                [subscription],
+                args,
+                args,
+                undefined
+            );
+
+            // Throwing would prevent the caller from receiving the
+            // subscription's canceller, so errors are always reported.
+            if (errors) {
+                this.onHandlerError(
+                    errors[0],
+                    eventName,
+                    args as Parameters<Events[EventNames<Events>]>
+                );
+            }
+        }
+    }
+
+    /**
+     * Calls the handlers of a list of subscriptions during a synchronous emit.
+     *
+     * @param eventName - The name of the event being emitted.
+     * @param subscriptions - The subscriptions whose handlers are called.
+     * @param handlerArgs - The arguments to pass to each handler.
+     * @param eventArgs - The arguments the event was emitted with.
+     * @param errors - Errors thrown by previously called handlers of this emit.
+     * @param results - Collects the results of the handlers, if the event is
+     *        invoked (see {@link #invoke}).
+     * @returns All errors thrown by handlers of this emit so far, or undefined
+     *          if no handler has thrown.
+     */
+    private callSubscriptions(
+        eventName: EventNames<Events>,
+        subscriptions: Subscription[],
+        handlerArgs: ArrayLike<unknown>,
+        eventArgs: ArrayLike<unknown>,
+        errors: unknown[] | undefined,
+        results?: unknown[]
+    ): unknown[] | undefined {
+        // NOTE: Avoiding for(of) here to optimize the transpiled code.
+        const length = subscriptions.length;
+        for (let i = 0; i < length; ++i) {
+            const subscription = subscriptions[i];
+
+            // Skip subscriptions that were cancelled during this emit
+            // before their handler was called.
+            if (subscription.cancelled) {
+                continue;
+            }
+
+            try {
+                const result = subscription.handler.apply(
+                    undefined,
+                    // Ugly typecast necessary to directly pass arguments
+                    // through rather than spreading arguments (...arguments),
+                    // which would transpile to unnecessary creation of a new array.
+                    (handlerArgs as unknown) as any[]
+                );
+
+                if (results) {
+                    results.push(result);
+                }
+
+                if (result && typeof result.then === "function") {
+                    // Async handlers can't be waited for here, but their
+                    // rejections must not go unhandled (even if they are
+                    // results of an invoke, which may be discarded by a
+                    // reducer).
+                    this.observeRejection(eventName, result, eventArgs);
+                }
+            } catch (error) {
+                (errors || (errors = [])).push(error);
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Creates an implementation of an event emit method for the
+     * {@link #emitAsync} property.
+     *
+     * @param eventName - A valid event name.
+     * @returns A function that, when called, will call all subscibed handlers
+     *          for the specified event, forwarding all arguments, and return
+     *          a Promise that resolves after all handlers have completed.
+     */
+    private createAsyncEventHandlerCaller(
+        eventName: EventNames<Events>
+    ): AnyAsyncEventFunction {
+        // tslint:disable:variable-name
+        const _this = this;
+        // tslint:disable:only-arrow-functions
+        return function (): Promise<void> {
+            const args = Array.prototype.slice.call(arguments) as Parameters<
+                Events[EventNames<Events>]
+            >;
+
+            if (!_this.interceptors.length) {
+                return _this.callHandlersAsync(eventName, args);
+            }
+
+            // Resolves immediately if an interceptor vetoes the emit
+            let promise = Promise.resolve();
+
+            try {
+                _this.intercept(eventName, args, (interceptedArgs) => {
+                    promise = _this.callHandlersAsync(
+                        eventName,
+                        interceptedArgs as Parameters<
+                            Events[EventNames<Events>]
+                        >
+                    );
+                });
+            } catch (error) {
+                return Promise.reject(error);
+            }
+
+            return promise;
+        };
+    }
+
+    /**
+     * Implementation of the emit methods of {@link #emitAsync}.
+     *
+     * @param eventName - The name of the event to emit.
+     * @param args - The arguments to pass to all handlers.
+     * @returns A Promise that resolves after all handlers have completed.
+     */
+    private async callHandlersAsync(
+        eventName: EventNames<Events>,
+        args: Parameters<Events[EventNames<Events>]>
+    ): Promise<void> {
+        if (this.checkDisposed()) {
+            return;
+        }
+
+        if (this.batchDepth) {
+            // Wait until the batched emit is delivered
+            return new Promise<void>((resolve) => {
+                this.addToBatch(eventName, args, resolve);
+            });
+        }
+
+        if (this.pauseCount) {
+            if (this.pauseMode === "drop") {
+                return;
+            }
+
+            // Wait until the queued emit is delivered
+            return new Promise<void>((resolve) => {
+                this.pauseQueue.push({ eventName, args, settle: resolve });
+            });
+        }
+
+        if (this.isDelivering && this.reentrancy === "queue") {
+            const chain = this.getQueuedChain(eventName);
+
+            // Wait until the queued emit is delivered
+            return new Promise<void>((resolve) => {
+                this.deliveryQueue.push({
+                    eventName,
+                    args,
+                    settle: resolve,
+                    chain,
+                });
+            });
+        }
+
+        return this.deliverAsync(eventName, args);
+    }
+
+    /**
+     * Delivers an asynchronous emit to all handlers of the event.
+     *
+     * @param eventName - The name of the event to emit.
+     * @param args - The arguments to pass to all handlers.
+     * @param results - Collects the resolved results of the handlers of the
+     *        event (not of handlers of all events), if the event is invoked
+     *        (see {@link #invokeAsync}).
+     * @returns A Promise that resolves after all handlers have completed.
+     */
+    private async deliverAsync(
+        eventName: EventNames<Events>,
+        args: Parameters<Events[EventNames<Events>]>,
+        results?: unknown[]
+    ): Promise<void> {
+        this.enterEmit(eventName);
+
+        // Replaying an invoke would discard the results
+        if (!results) {
+            this.recordReplay(eventName, args);
+        }
+
+        const tracedEmit = this.isTraced() ? startTracedEmit() : undefined;
+        const handlerCount = tracedEmit ? this.listenerCount(eventName) : 0;
+
+        // Each group of subscriptions, with the arguments for their handlers
+        // (and where to collect their results, if any).
+        // NOTE: The acquired arrays of subscriptions are not modified until
+        //       released, so handlers added while waiting are not called.
+        const eventSubscriptions: SubscriptionList | undefined = this.handlers[
+            eventName
+        ];
+        const anySubscriptions = this.anyHandlers;
+        const groups: [
+            SubscriptionList,
+            Subscription[],
+            unknown[],
+            unknown[]?
+        ][] = [];
+
+        if (eventSubscriptions) {
+            groups.push([
+                eventSubscriptions,
+                eventSubscriptions.acquire(),
+                args,
+                results,
+            ]);
+        }
+
+        if (anySubscriptions) {
+            groups.push([
+                anySubscriptions,
+                anySubscriptions.acquire(),
+                [eventName, args],
+            ]);
+        }
+
+        const promise = this.callSubscriptionsAsync(eventName, groups, args);
+
+        // Only the synchronous part of calling the handlers can recurse
+        this.exitEmit(eventName);
+
+        if (tracedEmit) {
+            endTracedEmit(tracedEmit);
+        }
+
+        try {
+            await promise;
+        } finally {
+            for (const [list, subscriptions] of groups) {
+                list.release(subscriptions);
+            }
+
+            if (tracedEmit) {
+                this.traceEmit(tracedEmit, eventName, args, handlerCount, true);
+            }
+        }
+    }
+
+    /**
+     * Calls the handlers of the subscriptions of an asynchronous emit.
+     *
+     * @param eventName - The name of the event being emitted.
+     * @param groups - Each group of subscriptions, with the arguments for
+     *        their handlers (and where to collect their results, if any).
+     * @param args - The arguments the event was emitted with.
+     * @returns A Promise that resolves after all handlers have completed.
+     */
+    private async callSubscriptionsAsync(
+        eventName: EventNames<Events>,
+        groups: [SubscriptionList, Subscription[], unknown[], unknown[]?][],
+        args: Parameters<Events[EventNames<Events>]>
+    ): Promise<void> {
+        const errors: unknown[] = [];
+
+        if (this.asyncEmitMode === "serial") {
+            for (const [, subscriptions, handlerArgs, results] of groups) {
+                for (const subscription of subscriptions) {
+                    // Skip handlers that were cancelled while waiting for
+                    // previous handlers to complete.
+                    if (subscription.cancelled) {
+                        continue;
+                    }
+
+                    try {
+                        const result = await subscription.handler.apply(
+                            undefined,
+                            handlerArgs
+                        );
+
+                        if (results) {
+                            results.push(result);
+                        }
+                    } catch (error) {
+                        errors.push(error);
+                    }
+                }
+            }
+        } else {
+            // Every handler's outcome is observed immediately (so that no
+            // rejection goes unhandled while waiting for other handlers),
+            // resolving to a wrapper around the error if the handler failed,
+            // or around the result otherwise.
+            const outcomes: Promise<
+                { error: unknown } | { result: unknown }
+            >[] = [];
+            // Where to collect the result of each outcome, if anywhere
+            const outcomeResults: (unknown[] | undefined)[] = [];
+
+            for (const [, subscriptions, handlerArgs, results] of groups) {
+                for (const subscription of subscriptions) {
+                    // Skip handlers that were cancelled by a previous handler
+                    if (subscription.cancelled) {
+                        continue;
+                    }
+
+                    outcomeResults.push(results);
+
+                    try {
+                        outcomes.push(
+                            Promise.resolve(
+                                subscription.handler.apply(
+                                    undefined,
+                                    handlerArgs
+                                )
+                            ).then(
+                                (result) => ({ result }),
+                                (error) => ({ error })
+                            )
+                        );
+                    } catch (error) {
+                        outcomes.push(Promise.resolve({ error }));
+                    }
+                }
+            }
+
+            // Wait for ALL handlers to settle, collecting errors and results
+            // in the order the handlers were called.
+            const settledOutcomes = await Promise.all(outcomes);
+
+            for (let i = 0; i < settledOutcomes.length; ++i) {
+                const outcome = settledOutcomes[i];
+                const results = outcomeResults[i];
+
+                if ("error" in outcome) {
+                    errors.push(outcome.error);
+                } else if (results) {
+                    results.push(outcome.result);
+                }
+            }
+        }
+
+        if (errors.length) {
+            this.handleErrors(eventName, errors, args);
+        }
+    }
+
+    /**
+     * Observes a Promise returned by an event handler during a synchronous
+     * emit, reporting its rejection (if any) to the
+     * [onHandlerRejection]{@link EventEmitterOptions#onHandlerRejection}
+     * callback.
+     *
+     * @param eventName - The name of the event that was being emitted.
+     * @param result - The Promise returned by an event handler.
+     * @param args - The arguments the event was emitted with.
+     */
+    private observeRejection(
+        eventName: EventNames<Events>,
+        result: Promise<void>,
+        args: ArrayLike<unknown>
+    ): void {
+        // Copy the arguments now, because an `arguments` object is only
+        // meaningful during the call it belongs to.
+        const argsArray = Array.prototype.slice.call(args) as Parameters<
+            Events[EventNames<Events>]
+        >;
+
+        result.then(undefined, (error) => {
+            this.onHandlerRejection(error, eventName, argsArray);
+        });
+    }
+
+    /**
+     * Handles errors thrown by event handlers during an emit, according to
+     * the configured {@link HandlerErrorPolicy}.
+     *
+     * @param eventName - The name of the event that was being emitted.
+     * @param errors - All errors thrown by event handlers (at least one).
+     * @param args - The arguments the event was emitted with.
+     */
+    private handleErrors(
+        eventName: EventNames<Events>,
+        errors: unknown[],
+        args: ArrayLike<unknown>
+    ): void {
+        switch (this.handlerErrorPolicy) {
+            case "report":
+                const argsArray = Array.prototype.slice.call(
+                    args
+                ) as Parameters<Events[EventNames<Events>]>;
+                for (const error of errors) {
+                    this.onHandlerError(error, eventName, argsArray);
+                }
+                return;
+            case "aggregate":
+                throw new EventHandlerAggregateError(errors, eventName);
+            default:
+                throw errors[0];
+        }
+    }
+
+    /**
+     * An implementation for the `get` handler of a Proxy used to implement
+     * the {@link #emit} and {@link #emitAsync} properties.
+     *
+     * Dynamically creates/caches/returns an implementation of an "emit" method
+     * for the specified event.
+     * @param createCaller - Creates the implementation of an "emit" method
+     *        for an event.
+     * @param target - A reference to the `emit` or `emitAsync` property.
+     * @param eventName - The name of the event whose emit method is being accessed.
+     * @returns The implementation of the emit method for the specified event.
+     */
+    private emitProxyGet(
+        createCaller: (eventName: EventNames<Events>) => AnyEventFunction,
+        target: EmitProxyTarget<Events>,
+        eventName: EventNames<Events>
+    ): AnyEventFunction {
+        // If this eventName property has never been accessed before, then create
+        // and cache its implementation.
+        if (!target[eventName]) {
+            target[eventName] = createCaller.call(this, eventName);
+        }
+
+        return target[eventName] as AnyEventFunction;
+    }
+
+    /**
+     * How errors thrown by event handlers are handled.
+     */
+    private readonly handlerErrorPolicy: HandlerErrorPolicy;
+
+    /**
+     * Receives errors thrown by event handlers when `handlerErrorPolicy` is
+     * "report".
+     */
+    private readonly onHandlerError: HandlerErrorReporter<Events>;
+
+    /**
+     * Receives rejections of Promises returned by event handlers during a
+     * synchronous emit.
+     */
+    private readonly onHandlerRejection: HandlerErrorReporter<Events>;
+
+    /**
+     * Callbacks for changes between having and not having subscribers.
+     */
+    private readonly lifecycleHooks: SubscriberLifecycleHooks<Events>;
+
+    /**
+     * Whether {@link #emitAsync} calls handlers in parallel or serially.
+     */
+    private readonly asyncEmitMode: AsyncEmitMode;
+
+    /**
+     * Number of recent emits to replay to new subscribers, per event.
+     */
+    private readonly replayLimits: Partial<Record<EventNames<Events>, number>>;
+
+    /**
+     * What happens to events emitted while paused.
+     */
+    private readonly pauseMode: PauseMode;
+
+    /**
+     * When events emitted by handlers during an emit are delivered.
+     */
+    private readonly reentrancy: ReentrancyMode;
+
+    /**
+     * Maximum number of nested emits of the same event.
+     */
+    private readonly maxEmitDepth: number;
+
+    /**
+     * Maximum number of handlers per event before a possible listener leak
+     * is reported.
+     */
+    private readonly maxListeners: number;
+
+    /**
+     * Receives possible listener leaks.
+     */
+    private readonly onListenerLeak: ListenerLeakReporter<Events>;
+
+    /**
+     * Whether to capture a stack trace of each subscription.
+     */
+    private readonly captureSubscriptionStacks: boolean;
+
+    /**
+     * Name of this emitter, included in traces.
+     */
+    private readonly label: string | undefined;
+
+    /**
+     * Receives traces of this emitter, in addition to the global tracer.
+     */
+    private readonly tracer: Tracer<Events> | undefined;
+
+    /**
+     * How multiple emits of the same event during a batch are delivered.
+     */
+    private readonly coalesceStrategies: Partial<
+        Record<EventNames<Events>, CoalesceStrategy<AnyEventFunction>>
+    >;
+
+    /**
+     * What happens to the emits of a batch when the batch function throws.
+     */
+    private readonly batchErrorPolicy: BatchErrorPolicy;
+
+    /**
+     * What happens when this emitter is used after it was disposed.
+     */
+    private readonly afterDispose: AfterDisposeBehavior;
+
+    /**
+     * @param options - Configuration options for the events.
+     */
+    public constructor(options: EventEmitterOptions<Events> = {}) {
+        super();
+        this.handlerErrorPolicy = options.handlerErrorPolicy || "rethrow-first";
+        this.onHandlerError = options.onHandlerError || reportHandlerError;
+        this.onHandlerRejection =
+            options.onHandlerRejection || this.onHandlerError;
+        this.asyncEmitMode = options.asyncEmitMode || "parallel";
+        this.replayLimits = createEventMap(options.replay);
+        this.pauseMode = options.pauseMode || "queue";
+        this.reentrancy = options.reentrancy || "nested";
+        this.maxEmitDepth =
+            options.maxEmitDepth !== undefined ? options.maxEmitDepth : 100;
+        this.maxListeners =
+            options.maxListeners !== undefined
+                ? options.maxListeners
+                : Infinity;
+        this.onListenerLeak = options.onListenerLeak || reportListenerLeak;
+        this.captureSubscriptionStacks = !!options.captureSubscriptionStacks;
+        this.label = options.label;
+        this.tracer = options.tracer;
+        this.coalesceStrategies = createEventMap(options.coalesce) as Partial<
+            Record<EventNames<Events>, CoalesceStrategy<AnyEventFunction>>
+        >;
+        this.batchErrorPolicy = options.batchErrorPolicy || "flush";
+        this.afterDispose = options.afterDispose || "ignore";
+        this.lifecycleHooks = options;
+        this.emit = new Proxy(createEventMap<EmitProxyTarget<Events>>(), {
+            get: this.emitProxyGet.bind(this, this.createEventHandlerCaller),
+        }) as EmitEvents<Events>;
+        this.emitAsync = (new Proxy(createEventMap<EmitProxyTarget<Events>>(), {
+            get: this.emitProxyGet.bind(
+                this,
+                this.createAsyncEventHandlerCaller
+            ),
+        }) as unknown) as AsyncEvents<Events>;
+    }
+
+    /**
+     * Creates a "readonly" version of this EventEmitter as an EventSource
+     * implementation to expose only the means to subscribe to events, without
+     * exposing the means to emit events.
+     *
+     * See also: {@link EventSourceType}
+     *
+     * @returns - A new EventSource that can be used subscribe to this
+     *            EventEmitter's events..
+     * @example
+     * ```
+     * class MyClass {
+     *     // Private EventEmitter gives your class the ability to emit
+     *     // events.
+     *     private emitter = new EventEmitter<{
+     *         nameChanged(name: string): void;
+     *     }>();
+     *
+     *     // Expose the EventEmitter publicly, but only as an EventSource,
+     *     // so external code can only subscribe to events.
+     *     // Using toEventSource() allows the `events` field's type to be
+     *     // conveniently inferred, rather than needing to manually specify its
+     *     // type correctly.
+     *     public events = this.emitter.toEventSource();
+     * }
+     * ```
+     */
+    public toEventSource(): EventSource<Events> {
+        return {
+            on: this.on.bind(this),
+            onAny: this.onAny.bind(this),
+            once: this.once.bind(this),
+            onceAsPromise: this.onceAsPromise.bind(this),
+            waitFor: this.waitFor.bind(this),
+            iterate: this.iterate.bind(this),
+            subscribe: this.subscribe.bind(this),
+        };
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected addHandler<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): CancelFunction {
+        if (this.checkDisposed()) {
+            this.tearDownRejected(handler);
+            return noop;
+        }
+
+        const subscription: Subscription = {
+            handler: handler,
+            priority: (options && options.priority) || 0,
+            cancelled: false,
+            stack: this.captureSubscriptionStacks
+                ? new Error().stack
+                : undefined,
+            teardown: getTeardown(handler as AnyEventHandler),
+        };
+
+        let eventSubscriptions: SubscriptionList | undefined = this.handlers[
+            eventName
+        ];
+        const isFirstSubscriberToEvent = !eventSubscriptions;
+
+        if (!eventSubscriptions) {
+            eventSubscriptions = this.handlers[
+                eventName
+            ] = new SubscriptionList();
+        }
+
+        eventSubscriptions.add(subscription);
+
+        this.subscriptionAdded();
+        this.traceSubscription("subscribe", eventName, eventSubscriptions.size);
+        this.checkListenerLeak(eventName, eventSubscriptions);
+
+        if (isFirstSubscriberToEvent && this.lifecycleHooks.onFirstSubscriber) {
+            this.lifecycleHooks.onFirstSubscriber(eventName);
+        }
+
+        this.replayTo(eventName, subscription);
+
+        return this.cancel.bind(this, eventName, subscription);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected addAnyHandler(
+        handler: AnyEventHandlerOf<Events>,
+        options?: SubscriptionOptions
+    ): CancelFunction {
+        if (this.checkDisposed()) {
+            this.tearDownRejected(handler as AnyEventHandler);
+            return noop;
+        }
+
+        const subscription: Subscription = {
+            handler: handler as AnyEventHandler,
+            priority: (options && options.priority) || 0,
+            cancelled: false,
+            teardown: getTeardown(handler as AnyEventHandler),
+        };
+
+        if (!this.anyHandlers) {
+            this.anyHandlers = new SubscriptionList();
+        }
+
+        this.anyHandlers.add(subscription);
+
+        this.subscriptionAdded();
+        this.traceSubscription("subscribe", undefined, this.anyHandlers.size);
+
+        return this.cancelAny.bind(this, subscription);
+    }
+
+    /**
+     * Suspends delivery of events. Events emitted while paused are queued or
+     * dropped, according to the [pauseMode]{@link EventEmitterOptions#pauseMode}
+     * option.
+     * Calls may be nested: delivery is resumed only when every call to
+     * `pause()` has been matched by a call to {@link #resume}.
+     */
+    public pause(): void {
+        ++this.pauseCount;
+    }
+
+    /**
+     * Resumes delivery of events after a call to {@link #pause}.
+     * When the outermost pause ends, all queued events are delivered in the
+     * order they were emitted. If delivering queued events throws errors
+     * (see {@link EventEmitterOptions#handlerErrorPolicy}), the first error
+     * is rethrown after all queued events have been delivered.
+     * Calling this method while not paused has no effect.
+     */
+    public resume(): void {
+        if (!this.pauseCount || --this.pauseCount) {
+            return;
+        }
+
+        let errors: unknown[] | undefined;
+
+        // A handler may pause again, in which case the remaining queued
+        // emits stay queued (ahead of any new emits).
+        while (!this.pauseCount && this.pauseQueue.length) {
+            const queuedEmit = this.pauseQueue.shift() as QueuedEmit;
+            const eventName = queuedEmit.eventName as EventNames<Events>;
+
+            if (queuedEmit.settle) {
+                queuedEmit.settle(
+                    this.callHandlersAsync(
+                        eventName,
+                        queuedEmit.args as Parameters<
+                            Events[EventNames<Events>]
+                        >
+                    )
+                );
+                continue;
+            }
+
+            try {
+                this.callHandlers(eventName, queuedEmit.args);
+            } catch (error) {
+                (errors || (errors = [])).push(error);
+            }
+        }
+
+        if (errors) {
+            throw errors[0];
+        }
+    }
+
+    /**
+     * Collects all events emitted while calling a function, then delivers
+     * them when the function returns, with multiple emits of the same event
+     * coalesced according to the [coalesce]{@link EventEmitterOptions#coalesce}
+     * option.
+     * Batches may be nested: events are delivered only when the outermost
+     * batch ends.
+     * If the function throws, the collected events are delivered or discarded
+     * according to the [batchErrorPolicy]{@link EventEmitterOptions#batchErrorPolicy}
+     * option, then the error is rethrown.
+     * If delivering the collected events throws errors (see
+     * {@link EventEmitterOptions#handlerErrorPolicy}), the first error is
+     * rethrown after all collected events have been delivered.
+     *
+     * NOTE: The batch ends when the function returns, so only events emitted
+     *       synchronously by the function are collected.
+     * @param fn - The function to call.
+     * @returns The return value of `fn`.
+     * @example
+     * ```
+     * emitter.batch(() => {
+     *     model.setName("foo"); // emits "changed"
+     *     model.setAge(42); // emits "changed"
+     * });
+     * // "changed" is delivered once if configured with `coalesce: { changed: "last" }`
+     * ```
+     */
+    public batch<Result>(fn: () => Result): Result {
+        ++this.batchDepth;
+
+        let result: Result;
+
+        try {
+            result = fn();
+        } catch (error) {
+            if (!--this.batchDepth) {
+                if (this.batchErrorPolicy === "discard") {
+                    this.discardBatch();
+                } else {
+                    // The function's error takes precedence over errors
+                    // thrown by handlers.
+                    try {
+                        this.flushBatch();
+                    } catch {
+                        // Ignored
+                    }
+                }
+            }
+
+            throw error;
+        }
+
+        if (!--this.batchDepth) {
+            this.flushBatch();
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks whether delivery of events is currently suspended.
+     * See {@link #pause}.
+     *
+     * @returns True if paused.
+     */
+    public isPaused(): boolean {
+        return this.pauseCount > 0;
+    }
+
+    /**
+     * Forgets the remembered emits of an event (or of all events), so that
+     * they are no longer replayed to new subscribers.
+     * See {@link EventEmitterOptions#replay}.
+     *
+     * @param eventName - A valid event name for the Events interface. If
+     *        omitted, the remembered emits of all events are forgotten.
+     */
+    public clearReplay(eventName?: EventNames<Events>): void {
+        if (eventName === undefined) {
+            this.replayBuffers = createEventMap();
+        } else {
+            delete this.replayBuffers[eventName];
+        }
+    }
+
+    /**
+     * Emits an event and collects the results returned by its handlers, for
+     * events that declare a return type in the Events interface (e.g., to let
+     * plugins contribute menu items, or validators return errors).
+     *
+     * Unlike {@link #emit}, the event is delivered immediately, even while
+     * paused (see {@link #pause}), during a batch (see {@link #batch}), or
+     * during another emit with the "queue" {@link ReentrancyMode}, and it is
+     * not remembered for replay. Interceptors (see {@link #use}) are called
+     * as for any emit: if an interceptor vetoes the invoke, no handlers are
+     * called, and there are no results. Handlers subscribed to all events
+     * (see {@link #onAny}) are called, but their results are not collected.
+     * Errors thrown by handlers are handled according to the
+     * [handlerErrorPolicy]{@link EventEmitterOptions#handlerErrorPolicy}
+     * option. Handlers that throw (with the "report" policy) have no result.
+     * Promises returned by async handlers are results as they are, and their
+     * rejections are also passed to the
+     * [onHandlerRejection]{@link EventEmitterOptions#onHandlerRejection}
+     * callback, as for {@link #emit} (see {@link #invokeAsync} to wait for
+     * async handlers instead).
+     * @example
+     * ```
+     * const emitter = new EventEmitter<{
+     *     validate(value: string): string | undefined;
+     * }>();
+     *
+     * emitter.on("validate", (value) => value ? undefined : "Required");
+     *
+     * // All results: (string | undefined)[]
+     * const errors = emitter.invoke("validate", [value]);
+     * // The first result that is not undefined: string | undefined
+     * const error = emitter.invoke("validate", [value], firstDefined);
+     * ```
+     *
+     * @param eventName - A valid event name for the Events interface.
+     * @param args - The arguments to pass to all handlers.
+     * @param reducer - Combines the results of the handlers into the return
+     *        value (see {@link firstDefined} and {@link fold}).
+     * @returns The results of the event's handlers (in the order the handlers
+     *          were called), or the value combined from them by the `reducer`.
+     */
+    public invoke<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>
+    ): InvokeResult<Events[EventName]>[];
+    public invoke<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer: InvokeReducer<InvokeResult<Events[EventName]>, Reduced>
+    ): Reduced;
+    public invoke<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer?: InvokeReducer<InvokeResult<Events[EventName]>, Reduced>
+    ): InvokeResult<Events[EventName]>[] | Reduced {
+        const results: InvokeResult<Events[EventName]>[] = [];
+
+        if (!this.checkDisposed()) {
+            if (this.interceptors.length) {
+                this.intercept(eventName, args, (interceptedArgs) =>
+                    this.deliver(eventName, interceptedArgs, results)
+                );
+            } else {
+                this.deliver(eventName, args, results);
+            }
+        }
+
+        return reducer ? reducer(results) : results;
+    }
+
+    /**
+     * Emits an event and waits for the results returned by its handlers
+     * (which may be async), for events that declare a return type in the
+     * Events interface.
+     * Handlers are called according to the
+     * [asyncEmitMode]{@link EventEmitterOptions#asyncEmitMode} option, and
+     * errors thrown by handlers (or rejections of their Promises) reject the
+     * returned Promise, or are reported, according to the
+     * [handlerErrorPolicy]{@link EventEmitterOptions#handlerErrorPolicy}
+     * option. Otherwise, this behaves like {@link #invoke}.
+     * @example
+     * ```
+     * const emitter = new EventEmitter<{
+     *     getMenuItems(context: Context): Promise<MenuItem[]>;
+     * }>();
+     *
+     * const items = await emitter.invokeAsync(
+     *     "getMenuItems",
+     *     [context],
+     *     fold((all, items) => all.concat(items || []), [] as MenuItem[])
+     * );
+     * ```
+     *
+     * @param eventName - A valid event name for the Events interface.
+     * @param args - The arguments to pass to all handlers.
+     * @param reducer - Combines the resolved results of the handlers into the
+     *        resolved value (see {@link firstDefined} and {@link fold}).
+     * @returns A Promise that resolves to the results of the event's handlers
+     *          (in the order the handlers were called), or the value
+     *          combined from them by the `reducer`, after all handlers have
+     *          completed.
+     */
+    public invokeAsync<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>
+    ): Promise<InvokeAsyncResult<Events[EventName]>[]>;
+    public invokeAsync<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer: InvokeReducer<InvokeAsyncResult<Events[EventName]>, Reduced>
+    ): Promise<Reduced>;
+    public async invokeAsync<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer?: InvokeReducer<InvokeAsyncResult<Events[EventName]>, Reduced>
+    ): Promise<InvokeAsyncResult<Events[EventName]>[] | Reduced> {
+        const results: InvokeAsyncResult<Events[EventName]>[] = [];
+
+        if (!this.checkDisposed()) {
+            if (this.interceptors.length) {
+                // Undefined if an interceptor vetoes the invoke
+                let promise: Promise<void> | undefined;
+
+                this.intercept(eventName, args, (interceptedArgs) => {
+                    promise = this.deliverAsync(
+                        eventName,
+                        interceptedArgs as Parameters<Events[EventName]>,
+                        results
+                    );
+                });
+
+                await promise;
+            } else {
+                await this.deliverAsync(eventName, args, results);
+            }
+        }
+
+        return reducer ? reducer(results) : results;
+    }
+
+    /**
+     * Adds an interceptor of all emits (by {@link #emit}, {@link #emitAsync},
+     * {@link #invoke} and {@link #invokeAsync}), which can change the
+     * arguments of an emit, or veto it, before it is delivered (see
+     * {@link EmitInterceptor}).
+     *
+     * Interceptors are called in the order they were added, each continuing
+     * the emit with the next one, as soon as an event is emitted (even while
+     * delivery is paused or batched).
+     * @example
+     * ```
+     * // Log all emits.
+     * emitter.use((eventName, args, next) => {
+     *     console.log(`Emitting "${String(eventName)}"`, args);
+     *     next();
+     * });
+     * ```
+     *
+     * @param interceptor - The interceptor to add.
+     * @returns A callback function that, when called, will remove the
+     *          interceptor.
+     */
+    public use(interceptor: EmitInterceptor<Events>): SubscriptionCanceller {
+        if (this.checkDisposed()) {
+            return toSubscriptionCanceller(noop);
+        }
+
+        const anyInterceptor = interceptor as AnyEmitInterceptor;
+        this.interceptors = this.interceptors.concat([anyInterceptor]);
+
+        let isRemoved = false;
+
+        return toSubscriptionCanceller(() => {
+            const index = this.interceptors.indexOf(anyInterceptor);
+
+            if (!isRemoved && index !== -1) {
+                isRemoved = true;
+                this.interceptors = this.interceptors
+                    .slice(0, index)
+                    .concat(this.interceptors.slice(index + 1));
+            }
+        });
+    }
+
+    /**
+     * Tears down this emitter:
+     * - All subscriptions are cancelled (calling the lifecycle hooks, such as
+     *   [onDeactivated]{@link SubscriberLifecycleHooks#onDeactivated}, as
+     *   usual), along with whatever depends on them: pending calls of
+     *   handlers subscribed through operators (e.g., {@link debounce}) are
+     *   discarded, waits and iterations of {@link DerivedEventSource}s end as
+     *   described below, and subscriptions stop listening to their
+     *   AbortSignals (see {@link SubscriptionOptions#signal}).
+     * - Pending waits (e.g., {@link #onceAsPromise}) are rejected with a
+     *   {@link DisposedError}, and pending iterations (see {@link #iterate})
+     *   end.
+     * - Queued emits (see {@link #pause} and {@link ReentrancyMode}), and
+     *   emits collected during a batch, are discarded, and remembered emits
+     *   are forgotten (see {@link #clearReplay}).
+     *
+     * Afterwards, emitting and subscribing are ignored or throw, according to
+     * the [afterDispose]{@link EventEmitterOptions#afterDispose} option.
+     * Calling this method again has no effect.
+     *
+     * This method is also available as `[Symbol.dispose]()`, so an emitter can
+     * be held by a TypeScript `using` declaration.
+     */
+    public dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+
+        this.disposed = true;
+        this.closeWaits(new DisposedError());
+
+        const teardowns: CancelFunction[] = [];
+
+        for (const eventName of this.activeEventNames()) {
+            for (const subscription of (this.handlers[
+                eventName
+            ] as SubscriptionList).toArray()) {
+                this.cancel(eventName, subscription);
+
+                if (subscription.teardown) {
+                    teardowns.push(subscription.teardown);
+                }
+            }
+        }
+
+        if (this.anyHandlers) {
+            for (const subscription of this.anyHandlers.toArray()) {
+                this.cancelAny(subscription);
+
+                if (subscription.teardown) {
+                    teardowns.push(subscription.teardown);
+                }
+            }
+        }
+
+        // Teardowns may cancel other subscriptions, so they are called after
+        // all subscriptions are cancelled.
+        teardowns.forEach((teardown) => teardown());
+
+        const queuedEmits = this.pauseQueue
+            .splice(0)
+            .concat(this.deliveryQueue.splice(0));
+
+        for (const { settle } of queuedEmits) {
+            if (settle) {
+                settle(Promise.resolve());
+            }
+        }
+
+        this.discardBatch();
+        this.replayBuffers = createEventMap();
+        this.interceptors = [];
+    }
+
+    /**
+     * Disposes this emitter. See {@link #dispose}.
+     */
+    public [disposeSymbol](): void {
+        this.dispose();
+    }
+
+    /**
+     * True after {@link #dispose} has been called.
+     */
+    public get isDisposed(): boolean {
+        return this.disposed;
+    }
+
+    /**
+     * Gets the number of handlers currently subscribed to an event, including
+     * handlers subscribed to all events via {@link #onAny}.
+     *
+     * @param eventName - A valid event name for the Events interface.
+     * @returns The number of handlers currently subscribed to the event.
+     */
+    public listenerCount(eventName: EventNames<Events>): number {
+        const eventSubscriptions: SubscriptionList | undefined = this.handlers[
+            eventName
+        ];
+        return (
+            (eventSubscriptions ? eventSubscriptions.size : 0) +
+            (this.anyHandlers ? this.anyHandlers.size : 0)
+        );
+    }
+
+    /**
+     * Checks whether any handlers are currently subscribed to an event, or
+     * to any event at all.
+     * This can be used to avoid computing an expensive event payload when
+     * nobody is listening.
+     *
+     * @param eventName - A valid event name for the Events interface. If
+     *        omitted, all events are checked.
+     * @returns True if at least one handler is subscribed to the specified
+     *          event (or to any event, if no event name is specified).
+     */
+    public hasListeners(eventName?: EventNames<Events>): boolean {
+        if (eventName === undefined) {
+            return this.subscriptionCount > 0;
+        }
+
+        return this.listenerCount(eventName) > 0;
+    }
+
+    /**
+     * Gets the names of all events that currently have at least one
+     * subscribed handler, including unique symbol event names.
+     * Handlers subscribed to all events via {@link #onAny} are not considered.
+     *
+     * @returns An array of event names.
+     */
+    public activeEventNames(): EventNames<Events>[] {
+        // NOTE: Empty per-event subscription lists are removed upon cancelling
+        //       subscriptions, so all remaining keys are active events.
+        return (Object.getOwnPropertyNames(
+            this.handlers
+        ) as EventNames<Events>[]).concat(
+            Object.getOwnPropertySymbols(this.handlers) as EventNames<Events>[]
+        );
+    }
+
+    /**
+     * Checks whether this emitter was disposed, in which case it is an error
+     * to use it if the [afterDispose]{@link EventEmitterOptions#afterDispose}
+     * option is "throw".
+     *
+     * @returns True if this emitter was disposed, and the current use of it
+     *          should be ignored.
+     */
+    private checkDisposed(): boolean {
+        if (!this.disposed) {
+            return false;
+        }
+
+        if (this.afterDispose === "throw") {
+            throw new DisposedError();
+        }
+
+        return true;
+    }
+
+    /**
+     * Tears down whatever depends on a subscription that was rejected
+     * because this emitter was disposed (see {@link withTeardown}), as if
+     * the subscription was cancelled by {@link #dispose}.
+     * @param handler - The handler that was not subscribed.
+     */
+    private tearDownRejected(handler: AnyEventHandler): void {
+        const teardown = getTeardown(handler);
+
+        if (teardown) {
+            teardown();
+        }
+    }
+
+    /**
+     * Reports a possible listener leak if an event has more handlers than
+     * allowed by the [maxListeners]{@link EventEmitterOptions#maxListeners}
+     * option, unless the event was already reported.
+     * @param eventName - The name of the event.
+     * @param eventSubscriptions - The subscriptions to the event.
+     */
+    private checkListenerLeak(
+        eventName: EventNames<Events>,
+        eventSubscriptions: SubscriptionList
+    ): void {
+        if (
+            eventSubscriptions.size <= this.maxListeners ||
+            this.reportedLeaks[eventName]
+        ) {
+            return;
+        }
+
+        this.reportedLeaks[eventName] = true;
+
+        this.onListenerLeak({
+            eventName,
+            count: eventSubscriptions.size,
+            maxListeners: this.maxListeners,
+            stacks: this.captureSubscriptionStacks
+                ? eventSubscriptions
+                      .toArray()
+                      .map((subscription) => subscription.stack || "")
+                : undefined,
+        });
+    }
+
+    /**
+     * Cancels a subscription.
+     *
+     * Silently ignores subscriptions that were already cancelled.
+     *
+     * @param eventName - The name of the event that was subscribed to.
+     * @param subscription - The subscription to cancel.
+     */
+    private cancel(
+        eventName: EventNames<Events>,
+        subscription: Subscription
+    ): void {
+        if (subscription.cancelled) {
+            return;
+        }
+
+        // NOTE: The list of a subscription that is not cancelled always
+        //       exists.
+        const eventSubscriptions = this.handlers[eventName] as SubscriptionList;
+        eventSubscriptions.remove(subscription);
+
+        if (!eventSubscriptions.size) {
+            // Release the subscriptions list of events that no longer have
+            // any subscriptions.
+            delete this.handlers[eventName];
+
+            if (this.lifecycleHooks.onLastUnsubscriber) {
+                this.lifecycleHooks.onLastUnsubscriber(eventName);
+            }
+        }
+
+        this.subscriptionRemoved();
+        this.traceSubscription("cancel", eventName, eventSubscriptions.size);
+    }
+
+    /**
+     * Cancels a subscription to all events (see {@link #onAny}).
+     *
+     * Silently ignores subscriptions that were already cancelled.
+     *
+     * @param subscription - The subscription to cancel.
+     */
+    private cancelAny(subscription: Subscription): void {
+        if (subscription.cancelled) {
+            return;
+        }
+
+        const anySubscriptions = this.anyHandlers as SubscriptionList;
+        anySubscriptions.remove(subscription);
+
+        if (!anySubscriptions.size) {
+            this.anyHandlers = undefined;
+        }
+
+        this.subscriptionRemoved();
+        this.traceSubscription("cancel", undefined, anySubscriptions.size);
+    }
+
+    /**
+     * Checks whether this emitter is traced, by its own tracer or by the
+     * global tracer (see {@link setGlobalTracer}).
+     * @returns True if traces of this emitter are received by any tracer.
+     */
+    private isTraced(): boolean {
+        return !!(this.tracer || getGlobalTracer());
+    }
+
+    /**
+     * Passes a trace to this emitter's tracer and to the global tracer.
+     * @param trace - The trace.
+     */
+    private trace(trace: Trace<Events>): void {
+        const globalTracer = getGlobalTracer();
+
+        if (this.tracer) {
+            this.tracer(trace);
+        }
+
+        if (globalTracer && globalTracer !== this.tracer) {
+            globalTracer(trace);
+        }
+    }
+
+    /**
+     * Traces a delivered emit.
+     * @param tracedEmit - Tracks the emit since its delivery started.
+     * @param eventName - The name of the emitted event.
+     * @param args - The arguments the event was emitted with.
+     * @param handlerCount - The number of handlers the emit was delivered to.
+     * @param async - True if the event was emitted with {@link #emitAsync}.
+     */
+    private traceEmit(
+        tracedEmit: TracedEmit,
+        eventName: EventNames<Events>,
+        args: ArrayLike<unknown>,
+        handlerCount: number,
+        async: boolean
+    ): void {
+        this.trace({
+            type: "emit",
+            label: this.label,
+            id: tracedEmit.id,
+            parentId: tracedEmit.parentId,
+            depth: tracedEmit.depth,
+            eventName,
+            args: Array.prototype.slice.call(args) as Parameters<
+                Events[EventNames<Events>]
+            >,
+            handlerCount,
+            async,
+            duration: now() - tracedEmit.start,
+        });
+    }
+
+    /**
+     * Traces a subscription being added or cancelled, if this emitter is
+     * traced.
+     * @param type - Whether the subscription was added or cancelled.
+     * @param eventName - The name of the subscribed event, or undefined for
+     *        a subscription to all events.
+     * @param handlerCount - The number of subscriptions to the event (or to
+     *        all events) afterwards.
+     */
+    private traceSubscription(
+        type: "subscribe" | "cancel",
+        eventName: EventNames<Events> | undefined,
+        handlerCount: number
+    ): void {
+        if (this.isTraced()) {
+            this.trace({ type, label: this.label, eventName, handlerCount });
+        }
+    }
+
+    /**
+     * Updates the total subscription count after a subscription is added,
+     * calling the `onActivated` lifecycle hook if appropriate.
+     */
+    private subscriptionAdded(): void {
+        if (++this.subscriptionCount === 1 && this.lifecycleHooks.onActivated) {
+            this.lifecycleHooks.onActivated();
+        }
+    }
+
+    /**
+     * Updates the total subscription count after a subscription is cancelled,
+     * calling the `onDeactivated` lifecycle hook if appropriate.
+     */
+    private subscriptionRemoved(): void {
+        if (
+            --this.subscriptionCount === 0 &&
+            this.lifecycleHooks.onDeactivated
+        ) {
+            this.lifecycleHooks.onDeactivated();
+        }
     }
 }
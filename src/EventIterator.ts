@@ -0,0 +1,182 @@
+/// <reference lib="es2018.asynciterable" />
+
+import { BufferOverflowError } from "./errors";
+import { BufferOverflowStrategy, CancelFunction } from "./types.private";
+
+/**
+ * A call to `next()` that is waiting for an event to be emitted.
+ */
+interface PendingRead<Value> {
+    resolve(result: IteratorResult<Value>): void;
+    reject(error: unknown): void;
+}
+
+/**
+ * Buffers values pushed by event subscriptions and exposes them as an async
+ * iterator (see {@link EventSource#iterate}).
+ *
+ * The iterator ends when {@link #end} or {@link #fail} is called, or when the
+ * consumer stops iterating, at which point all subscriptions added via
+ * {@link #addCanceller} are cancelled.
+ * @typeParam Value - The type of values produced by the iterator.
+ */
+export class EventIterator<Value> implements AsyncIterableIterator<Value> {
+    private readonly eventName: string | symbol;
+    private readonly bufferSize: number;
+    private readonly overflow: BufferOverflowStrategy;
+    private readonly buffer: Value[] = [];
+    private readonly pendingReads: PendingRead<Value>[] = [];
+    private readonly cancelFunctions: CancelFunction[] = [];
+    private isStopped: boolean = false;
+    private failure: { error: unknown } | undefined;
+
+    /**
+     * @param eventName - The name of the event being iterated.
+     * @param bufferSize - Maximum number of unconsumed values to buffer.
+     * @param overflow - What to do when a value is pushed to a full buffer.
+     */
+    public constructor(
+        eventName: string | symbol,
+        bufferSize: number,
+        overflow: BufferOverflowStrategy
+    ) {
+        this.eventName = eventName;
+        this.bufferSize = bufferSize;
+        this.overflow = overflow;
+    }
+
+    /**
+     * Registers a function to be called when the iterator stops.
+     * The function is called immediately if the iterator has already stopped.
+     * @param cancel - Cancels a subscription that feeds this iterator.
+     */
+    public addCanceller(cancel: CancelFunction): void {
+        if (this.isStopped) {
+            cancel();
+        } else {
+            this.cancelFunctions.push(cancel);
+        }
+    }
+
+    /**
+     * Produces a value, or buffers it until it is consumed.
+     * @param value - The value.
+     */
+    public push(value: Value): void {
+        if (this.isStopped) {
+            return;
+        }
+
+        const pendingRead = this.pendingReads.shift();
+
+        if (pendingRead) {
+            pendingRead.resolve({ value: value, done: false });
+            return;
+        }
+
+        if (this.buffer.length >= this.bufferSize) {
+            if (this.overflow === "drop-newest") {
+                return;
+            } else if (this.overflow === "drop-oldest") {
+                this.buffer.shift();
+            } else {
+                this.fail(
+                    new BufferOverflowError(this.eventName, this.bufferSize)
+                );
+                return;
+            }
+        }
+
+        this.buffer.push(value);
+    }
+
+    /**
+     * Ends the iteration after all buffered values have been consumed.
+     */
+    public end(): void {
+        if (this.stop()) {
+            this.settlePendingReads();
+        }
+    }
+
+    /**
+     * Ends the iteration with an error, which is thrown after all buffered
+     * values have been consumed.
+     * @param error - The error.
+     */
+    public fail(error: unknown): void {
+        if (this.stop()) {
+            this.failure = { error: error };
+            this.settlePendingReads();
+        }
+    }
+
+    public next(): Promise<IteratorResult<Value>> {
+        if (this.buffer.length) {
+            return Promise.resolve({
+                value: this.buffer.shift() as Value,
+                done: false,
+            });
+        }
+
+        if (this.isStopped) {
+            return this.createFinalResult();
+        }
+
+        return new Promise<IteratorResult<Value>>((resolve, reject) => {
+            this.pendingReads.push({ resolve, reject });
+        });
+    }
+
+    public return(): Promise<IteratorResult<Value>> {
+        this.buffer.length = 0;
+        this.failure = undefined;
+        this.end();
+        return Promise.resolve({ value: undefined, done: true });
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterableIterator<Value> {
+        return this;
+    }
+
+    /**
+     * @returns True if the iterator was stopped by this call.
+     */
+    private stop(): boolean {
+        if (this.isStopped) {
+            return false;
+        }
+
+        this.isStopped = true;
+        this.cancelFunctions.forEach((cancel) => cancel());
+        this.cancelFunctions.length = 0;
+        return true;
+    }
+
+    private settlePendingReads(): void {
+        // Pending reads only exist while the buffer is empty
+        const pendingReads = this.pendingReads.splice(0);
+
+        for (const pendingRead of pendingReads) {
+            this.createFinalResult().then(
+                pendingRead.resolve,
+                pendingRead.reject
+            );
+        }
+    }
+
+    /**
+     * The result of reading from a stopped iterator with an empty buffer.
+     * A failure is reported only once, after which the iterator is done.
+     */
+    private createFinalResult(): Promise<IteratorResult<Value>> {
+        const failure = this.failure;
+
+        if (failure) {
+            this.failure = undefined;
+            return Promise.reject(failure.error);
+        }
+
+        return Promise.resolve({ value: undefined, done: true });
+    }
+}
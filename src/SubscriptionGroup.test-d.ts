@@ -0,0 +1,71 @@
+// tslint:disable:no-unused-expression
+// NOTE: import from root/index to test against publicly exported types
+import {
+    EventEmitter,
+    WithEventEmitter,
+    SubscriptionGroup,
+    SubscriptionCanceller,
+} from ".";
+import { expectType, expectError } from "tsd";
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number, b: boolean): void;
+    bar(a: string): void;
+}
+
+const eventEmitter = new EventEmitter<Events>();
+const eventSource = eventEmitter.toEventSource();
+
+class Widget extends WithEventEmitter<Events> {}
+const widget = new Widget();
+
+const group = new SubscriptionGroup();
+
+// on()/once() infer the Events interface of the source
+{
+    expectType<SubscriptionCanceller>(
+        group.on(eventEmitter, "foo", (a, b) => {
+            expectType<number>(a);
+            expectType<boolean>(b);
+        })
+    );
+    group.once(eventSource, "bar", (a) => {
+        expectType<string>(a);
+    });
+    group.on(widget, "bar", (a) => {
+        expectType<string>(a);
+    });
+
+    // invalid event name
+    expectError(group.on(eventEmitter, "broken", () => undefined));
+}
+
+// onAny()/subscribe()
+{
+    group.onAny(eventEmitter, (eventName, args) => {
+        expectType<"foo" | "bar">(eventName);
+    });
+    group.subscribe(widget, {
+        bar: (a) => {
+            expectType<string>(a);
+        },
+    });
+
+    expectError(group.subscribe(eventEmitter, { broken: () => undefined }));
+}
+
+// add() accepts any cancel function
+{
+    expectType<SubscriptionCanceller>(
+        group.add(eventEmitter.on("foo", () => undefined))
+    );
+    group.add(() => undefined);
+}
+
+// createChild() and disposal
+{
+    expectType<SubscriptionGroup>(group.createChild());
+    expectType<boolean>(group.isCancelled);
+    expectType<void>(group[Symbol.dispose]());
+}
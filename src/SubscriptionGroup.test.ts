@@ -0,0 +1,196 @@
+import { EventEmitter } from "./EventEmitter";
+import { SubscriptionGroup } from "./SubscriptionGroup";
+import { disposeSymbol } from "./disposable";
+import { once } from "./once";
+
+// Sample Events interfaces for testing
+interface Events {
+    foo(a: number, b: boolean): void;
+    bar(): void;
+}
+
+interface OtherEvents {
+    changed(value: string): void;
+}
+
+// Minimal AbortSignal implementation for testing
+function createAbortSignal(): {
+    signal: {
+        aborted: boolean;
+        addEventListener(type: "abort", listener: () => void): void;
+        removeEventListener(type: "abort", listener: () => void): void;
+    };
+    abort(): void;
+    listenerCount(): number;
+} {
+    let listeners: (() => void)[] = [];
+    const signal = {
+        aborted: false,
+        addEventListener(type: "abort", listener: () => void): void {
+            listeners.push(listener);
+        },
+        removeEventListener(type: "abort", listener: () => void): void {
+            listeners = listeners.filter((item) => item !== listener);
+        },
+    };
+
+    return {
+        signal,
+        abort(): void {
+            signal.aborted = true;
+            listeners.forEach((listener) => listener());
+        },
+        listenerCount: () => listeners.length,
+    };
+}
+
+describe("SubscriptionGroup", () => {
+    test("Cancels subscriptions to multiple sources at once", () => {
+        const emitter = new EventEmitter<Events>();
+        const otherEmitter = new EventEmitter<OtherEvents>();
+        const group = new SubscriptionGroup();
+
+        const foo = jest.fn();
+        const bar = jest.fn();
+        const changed = jest.fn();
+        const anyHandler = jest.fn();
+        group.on(emitter, "foo", foo);
+        group.once(emitter, "foo", foo);
+        group.subscribe(emitter, { bar: once(bar) });
+        group.onAny(otherEmitter, anyHandler);
+        group.add(otherEmitter.on("changed", changed));
+
+        expect(emitter.listenerCount("foo")).toBe(2);
+        expect(otherEmitter.listenerCount("changed")).toBe(2);
+
+        expect(group.isCancelled).toBe(false);
+        group.cancel();
+        expect(group.isCancelled).toBe(true);
+
+        expect(emitter.hasListeners()).toBe(false);
+        expect(otherEmitter.hasListeners()).toBe(false);
+
+        emitter.emit.foo(42, true);
+        emitter.emit.bar();
+        otherEmitter.emit.changed("value");
+        expect(foo).not.toHaveBeenCalled();
+        expect(bar).not.toHaveBeenCalled();
+        expect(changed).not.toHaveBeenCalled();
+        expect(anyHandler).not.toHaveBeenCalled();
+    });
+
+    test("Cancels in the reverse of the order added", () => {
+        const group = new SubscriptionGroup();
+        const calls: number[] = [];
+        group.add(() => calls.push(1));
+        group.add(() => calls.push(2));
+        group.add(() => calls.push(3));
+
+        group.cancel();
+        group.cancel();
+
+        expect(calls).toEqual([3, 2, 1]);
+    });
+
+    test("Individually cancelled subscriptions are removed from the group", () => {
+        const group = new SubscriptionGroup();
+        const cancelFoo = jest.fn();
+        const cancel = group.add(cancelFoo);
+
+        cancel();
+        cancel();
+        expect(cancelFoo).toHaveBeenCalledTimes(1);
+
+        group.cancel();
+        expect(cancelFoo).toHaveBeenCalledTimes(1);
+    });
+
+    test("Subscriptions added after cancelling are cancelled immediately", () => {
+        const emitter = new EventEmitter<Events>();
+        const group = new SubscriptionGroup();
+        group.cancel();
+
+        const cancelFoo = jest.fn();
+        group.add(cancelFoo);
+        expect(cancelFoo).toHaveBeenCalledTimes(1);
+
+        group.on(emitter, "foo", jest.fn());
+        group.subscribe(emitter, { bar: jest.fn() });
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Child groups are cancelled with their parent", () => {
+        const group = new SubscriptionGroup();
+        const child = group.createChild();
+        const grandchild = child.createChild();
+        const cancelFoo = jest.fn();
+        grandchild.add(cancelFoo);
+
+        group.cancel();
+
+        expect(child.isCancelled).toBe(true);
+        expect(grandchild.isCancelled).toBe(true);
+        expect(cancelFoo).toHaveBeenCalledTimes(1);
+    });
+
+    test("Cancelling a child group does not cancel its parent", () => {
+        const group = new SubscriptionGroup();
+        const cancelFoo = jest.fn();
+        group.add(cancelFoo);
+        const child = group.createChild();
+
+        child.cancel();
+        expect(group.isCancelled).toBe(false);
+        expect(cancelFoo).not.toHaveBeenCalled();
+
+        // A child created from a cancelled group starts cancelled
+        group.cancel();
+        expect(group.createChild().isCancelled).toBe(true);
+    });
+
+    test("Cancelled when its signal is aborted", () => {
+        const emitter = new EventEmitter<Events>();
+        const controller = createAbortSignal();
+        const group = new SubscriptionGroup({ signal: controller.signal });
+        group.on(emitter, "foo", jest.fn());
+
+        controller.abort();
+
+        expect(group.isCancelled).toBe(true);
+        expect(emitter.hasListeners()).toBe(false);
+        expect(controller.listenerCount()).toBe(0);
+    });
+
+    test("Stops listening to its signal when cancelled", () => {
+        const controller = createAbortSignal();
+        const group = new SubscriptionGroup({ signal: controller.signal });
+        expect(controller.listenerCount()).toBe(1);
+
+        group.cancel();
+        expect(controller.listenerCount()).toBe(0);
+    });
+
+    test("Starts cancelled if its signal is already aborted", () => {
+        const controller = createAbortSignal();
+        controller.abort();
+
+        const group = new SubscriptionGroup({ signal: controller.signal });
+        expect(group.isCancelled).toBe(true);
+        expect(controller.listenerCount()).toBe(0);
+    });
+
+    test("Cancelled when disposed", () => {
+        const group = new SubscriptionGroup();
+        const cancelFoo = jest.fn();
+        const cancel = group.add(cancelFoo);
+
+        // Cancellers returned by the group are disposable too
+        cancel[disposeSymbol]();
+        expect(cancelFoo).toHaveBeenCalledTimes(1);
+
+        group.add(cancelFoo);
+        group[disposeSymbol]();
+        expect(group.isCancelled).toBe(true);
+        expect(cancelFoo).toHaveBeenCalledTimes(2);
+    });
+});
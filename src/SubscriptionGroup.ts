@@ -0,0 +1,275 @@
+import { disposeSymbol, toSubscriptionCanceller } from "./disposable";
+import {
+    AnyEventHandlerOf,
+    CancelFunction,
+    EventHandler,
+    EventHandlers,
+    EventNames,
+    EventsConstraint,
+    EventSource,
+    SubscriptionCanceller,
+    SubscriptionGroupOptions,
+    SubscriptionOptions,
+} from "./types.private";
+
+/**
+ * Collects subscriptions (to any number of {@link EventSource}s) so that they
+ * can all be cancelled at once.
+ * - Call {@link SubscriptionGroup#add} to add any {@link SubscriptionCanceller}.
+ * - Call {@link SubscriptionGroup#on}, {@link SubscriptionGroup#once},
+ * {@link SubscriptionGroup#onAny} or {@link SubscriptionGroup#subscribe} to
+ * subscribe to an EventSource and add the subscription in one step.
+ * - Call {@link SubscriptionGroup#createChild} to create a group for a nested
+ * lifetime, which is cancelled along with its parent.
+ * - Call {@link SubscriptionGroup#cancel} to cancel all subscriptions.
+ *
+ * A group is also cancelled when the [signal]{@link SubscriptionGroupOptions#signal}
+ * it was created with is aborted, or when it is disposed (see `Symbol.dispose`).
+ * @example
+ * ```
+ * class MyComponent {
+ *     private subscriptions = new SubscriptionGroup();
+ *
+ *     public constructor(model: Model, settings: Settings) {
+ *         this.subscriptions.on(model, "changed", () => this.render());
+ *         this.subscriptions.on(settings, "themeChanged", () => this.render());
+ *     }
+ *
+ *     public destroy(): void {
+ *         this.subscriptions.cancel();
+ *     }
+ * }
+ * ```
+ */
+export class SubscriptionGroup {
+    /**
+     * Cancel functions of all subscriptions in this group, in the order they
+     * were added.
+     */
+    private readonly cancelFunctions: CancelFunction[] = [];
+
+    /**
+     * True after {@link #cancel} has been called.
+     */
+    private cancelled = false;
+
+    /**
+     * Removes this group from its parent group (if any).
+     */
+    private detach: CancelFunction | undefined;
+
+    /**
+     * @param options - Options for the group.
+     */
+    public constructor(options: SubscriptionGroupOptions = {}) {
+        const { signal } = options;
+
+        if (!signal) {
+            return;
+        }
+
+        if (signal.aborted) {
+            this.cancelled = true;
+            return;
+        }
+
+        const onAbort = (): void => {
+            this.cancel();
+        };
+
+        signal.addEventListener("abort", onAbort);
+        this.cancelFunctions.push(() => {
+            signal.removeEventListener("abort", onAbort);
+        });
+    }
+
+    /**
+     * True after {@link #cancel} has been called (including by the group's
+     * signal being aborted, or by a parent group being cancelled).
+     */
+    public get isCancelled(): boolean {
+        return this.cancelled;
+    }
+
+    /**
+     * Adds a subscription to this group.
+     * If this group is already cancelled, the subscription is cancelled
+     * immediately.
+     * @param cancel - A callback function that cancels the subscription.
+     * @returns A callback function that, when called, will cancel the
+     *          subscription and remove it from this group.
+     */
+    public add(cancel: CancelFunction): SubscriptionCanceller {
+        if (this.cancelled) {
+            cancel();
+            return toSubscriptionCanceller(() => {
+                // Already cancelled
+            });
+        }
+
+        this.cancelFunctions.push(cancel);
+
+        return toSubscriptionCanceller(() => {
+            const index = this.cancelFunctions.indexOf(cancel);
+
+            if (index !== -1) {
+                this.cancelFunctions.splice(index, 1);
+                cancel();
+            }
+        });
+    }
+
+    /**
+     * Subscribes to a single event of an EventSource, and adds the
+     * subscription to this group.
+     * See {@link EventSource#on}.
+     * @param source - The EventSource to subscribe to.
+     * @param eventName - A valid event name for the source's Events interface.
+     * @param handler - A handler function for the specified event.
+     * @param options - Options for the subscription.
+     * @returns A callback function that, when called, will cancel the
+     *          subscription and remove it from this group.
+     */
+    public on<
+        Events extends EventsConstraint<Events>,
+        EventName extends EventNames<Events>
+    >(
+        source: EventSource<Events>,
+        eventName: EventName,
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller {
+        return this.addUnlessCancelled(() =>
+            source.on(eventName, handler, options)
+        );
+    }
+
+    /**
+     * Subscribes to a single event of an EventSource for only one emit, and
+     * adds the subscription to this group.
+     * See {@link EventSource#once}.
+     * @param source - The EventSource to subscribe to.
+     * @param eventName - A valid event name for the source's Events interface.
+     * @param handler - A handler function for the specified event.
+     * @param options - Options for the subscription.
+     * @returns A callback function that, when called, will cancel the
+     *          subscription and remove it from this group.
+     */
+    public once<
+        Events extends EventsConstraint<Events>,
+        EventName extends EventNames<Events>
+    >(
+        source: EventSource<Events>,
+        eventName: EventName,
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller {
+        return this.addUnlessCancelled(() =>
+            source.once(eventName, handler, options)
+        );
+    }
+
+    /**
+     * Subscribes to all events of an EventSource, and adds the subscription
+     * to this group.
+     * See {@link EventSource#onAny}.
+     * @param source - The EventSource to subscribe to.
+     * @param handler - A handler function for all events.
+     * @param options - Options for the subscription.
+     * @returns A callback function that, when called, will cancel the
+     *          subscription and remove it from this group.
+     */
+    public onAny<Events extends EventsConstraint<Events>>(
+        source: EventSource<Events>,
+        handler: AnyEventHandlerOf<Events>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller {
+        return this.addUnlessCancelled(() => source.onAny(handler, options));
+    }
+
+    /**
+     * Subscribes to multiple events of an EventSource, and adds the
+     * subscriptions to this group.
+     * See {@link EventSource#subscribe}.
+     * @param source - The EventSource to subscribe to.
+     * @param handlers - An object containing handlers for the events.
+     * @param options - Options for all of the subscriptions.
+     * @returns A callback function that, when called, will cancel the
+     *          subscriptions and remove them from this group.
+     */
+    public subscribe<Events extends EventsConstraint<Events>>(
+        source: EventSource<Events>,
+        handlers: Partial<EventHandlers<Events>>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller {
+        return this.addUnlessCancelled(() =>
+            source.subscribe(handlers, options)
+        );
+    }
+
+    /**
+     * Creates a group for a nested lifetime. The child group is cancelled
+     * when this group is cancelled, and is removed from this group when it
+     * is cancelled on its own.
+     * @param options - Options for the child group.
+     * @returns A new group.
+     */
+    public createChild(options?: SubscriptionGroupOptions): SubscriptionGroup {
+        const child = new SubscriptionGroup(options);
+
+        if (!child.cancelled) {
+            child.detach = this.add(() => child.cancel());
+        }
+
+        return child;
+    }
+
+    /**
+     * Cancels all subscriptions in this group (including child groups), in
+     * the reverse of the order they were added.
+     * Subscriptions added afterwards are cancelled immediately.
+     * Calling this method again has no effect.
+     */
+    public cancel(): void {
+        if (this.cancelled) {
+            return;
+        }
+
+        this.cancelled = true;
+
+        const cancelFunctions = this.cancelFunctions.splice(0);
+        for (let i = cancelFunctions.length - 1; i >= 0; --i) {
+            cancelFunctions[i]();
+        }
+
+        if (this.detach) {
+            this.detach();
+        }
+    }
+
+    /**
+     * Cancels this group. See {@link #cancel}.
+     */
+    public [disposeSymbol](): void {
+        this.cancel();
+    }
+
+    /**
+     * Adds a subscription to this group, without creating the subscription
+     * at all if this group is already cancelled.
+     * @param subscribe - Creates the subscription.
+     * @returns A callback function that, when called, will cancel the
+     *          subscription and remove it from this group.
+     */
+    private addUnlessCancelled(
+        subscribe: () => CancelFunction
+    ): SubscriptionCanceller {
+        if (this.cancelled) {
+            return toSubscriptionCanceller(() => {
+                // Nothing to cancel
+            });
+        }
+
+        return this.add(subscribe());
+    }
+}
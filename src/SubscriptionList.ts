@@ -0,0 +1,164 @@
+import { AnyEventHandler, CancelFunction } from "./types.private";
+
+/**
+ * A single subscription of a handler to an event.
+ */
+export interface Subscription {
+    /**
+     * The subscribed event handler.
+     */
+    readonly handler: AnyEventHandler;
+    /**
+     * Handlers with higher priority are called before handlers with lower
+     * priority.
+     */
+    readonly priority: number;
+    /**
+     * True after the subscription has been cancelled.
+     */
+    cancelled: boolean;
+    /**
+     * Stack trace of where the subscription was created, if enabled by
+     * [captureSubscriptionStacks]{@link EventEmitterOptions#captureSubscriptionStacks}.
+     */
+    readonly stack?: string;
+    /**
+     * Tears down whatever depends on the subscription (see
+     * {@link withTeardown}) when the subscription is cancelled by disposing
+     * its emitter.
+     */
+    readonly teardown?: CancelFunction;
+}
+
+/**
+ * The subscriptions to a single event (or to all events), ordered by priority
+ * (highest first), then by the order of subscribing.
+ *
+ * Cancelling a subscription takes constant (amortized) time: the subscription
+ * is only flagged as cancelled, and the underlying array is compacted once
+ * cancelled subscriptions make up half of it.
+ *
+ * Emits iterate the underlying array directly (see {@link #acquire}). While
+ * an emit is in progress, the array is never modified in place. It is
+ * replaced with a modified copy instead, so that the emit can safely continue
+ * iterating the array as it was when the emit started.
+ */
+export class SubscriptionList {
+    /**
+     * All subscriptions, including cancelled subscriptions that have not
+     * been removed yet.
+     */
+    private subscriptions: Subscription[] = [];
+
+    /**
+     * Number of subscriptions that are not cancelled.
+     */
+    private activeCount = 0;
+
+    /**
+     * Number of emits in progress that are iterating the current
+     * {@link #subscriptions} array.
+     */
+    private emitCount = 0;
+
+    /**
+     * Number of subscriptions that are not cancelled.
+     */
+    public get size(): number {
+        return this.activeCount;
+    }
+
+    /**
+     * Adds a subscription after all subscriptions of equal or higher priority.
+     * @param subscription - The subscription to add.
+     */
+    public add(subscription: Subscription): void {
+        const subscriptions = this.getWritableSubscriptions();
+
+        let index = subscriptions.length;
+        while (
+            index > 0 &&
+            subscriptions[index - 1].priority < subscription.priority
+        ) {
+            --index;
+        }
+
+        if (index === subscriptions.length) {
+            subscriptions.push(subscription);
+        } else {
+            subscriptions.splice(index, 0, subscription);
+        }
+
+        ++this.activeCount;
+    }
+
+    /**
+     * Cancels a subscription that belongs to this list.
+     * Silently ignores subscriptions that were already cancelled.
+     * @param subscription - The subscription to cancel.
+     */
+    public remove(subscription: Subscription): void {
+        if (subscription.cancelled) {
+            return;
+        }
+
+        // Flag the subscription as cancelled so that an emit in progress will
+        // not call its handler.
+        subscription.cancelled = true;
+        --this.activeCount;
+
+        if (this.subscriptions.length >= 2 * this.activeCount) {
+            this.subscriptions = this.subscriptions.filter(
+                (other) => !other.cancelled
+            );
+            this.emitCount = 0;
+        }
+    }
+
+    /**
+     * Gets the array of subscriptions for an emit to iterate.
+     * The array may contain cancelled subscriptions, which must be skipped.
+     * Call {@link #release} when the emit is done with the array.
+     * @returns The array of subscriptions, which will not be modified until
+     *          released.
+     */
+    public acquire(): Subscription[] {
+        ++this.emitCount;
+        return this.subscriptions;
+    }
+
+    /**
+     * Signals that an emit is done with an array returned by {@link #acquire}.
+     * @param subscriptions - The array returned by {@link #acquire}.
+     */
+    public release(subscriptions: Subscription[]): void {
+        // An array that was already replaced is no longer tracked
+        if (subscriptions === this.subscriptions) {
+            --this.emitCount;
+        }
+    }
+
+    /**
+     * Gets all subscriptions that are not cancelled.
+     * @returns A new array of subscriptions, ordered by priority.
+     */
+    public toArray(): Subscription[] {
+        return this.subscriptions.filter(
+            (subscription) => !subscription.cancelled
+        );
+    }
+
+    /**
+     * Gets the array of subscriptions for modification, replacing it with a
+     * copy first if any emit is iterating it.
+     * @returns The array of subscriptions.
+     */
+    private getWritableSubscriptions(): Subscription[] {
+        if (this.emitCount) {
+            this.subscriptions = this.subscriptions.slice();
+            this.emitCount = 0;
+        }
+
+        return this.subscriptions;
+    }
+}
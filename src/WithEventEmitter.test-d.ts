@@ -15,6 +15,7 @@ class Widget extends WithEventEmitter<Events> {
         // Verify that a special "emit" property is inherited that is the
         // same type as EventEmitter's "emit" property.
         expectType<EventEmitter<Events>["emit"]>(this.emit);
+        expectType<EventEmitter<Events>["emitAsync"]>(this.emitAsync);
     }
 }
 
@@ -23,6 +24,7 @@ const widget = new Widget();
 // Verify that the signature of the inherited methods method are the same
 // as the signature of the same methods on EventEmitter.
 expectType<EventEmitter<Events>["on"]>(widget.on);
+expectType<EventEmitter<Events>["onAny"]>(widget.onAny);
 expectType<EventEmitter<Events>["once"]>(widget.once);
 expectType<EventEmitter<Events>["onceAsPromise"]>(widget.onceAsPromise);
 expectType<EventEmitter<Events>["subscribe"]>(widget.subscribe);
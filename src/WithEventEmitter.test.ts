@@ -1,4 +1,6 @@
 import { WithEventEmitter } from "./WithEventEmitter";
+import { DisposedError } from "./errors";
+import { firstDefined } from "./reducers";
 import flushPromises from "flush-promises";
 
 // Sample Events interface for testing
@@ -84,3 +86,242 @@ test("General sanity check", async () => {
     expect(fooOnce).toHaveBeenCalledTimes(1);
     expect(fooPromiseHandler).toHaveBeenCalledTimes(1);
 });
+
+test("EventEmitter options are passed through", () => {
+    class ReportingWidget extends WithEventEmitter<Events> {
+        public constructor(reporter: jest.Mock) {
+            super({ handlerErrorPolicy: "report", onHandlerError: reporter });
+        }
+
+        public triggerFoo(a: number, b: boolean): void {
+            this.emit.foo(a, b);
+        }
+    }
+
+    const onHandlerError = jest.fn();
+    const widget = new ReportingWidget(onHandlerError);
+    const error = new Error("oops");
+
+    widget.on("foo", () => {
+        throw error;
+    });
+
+    expect(() => {
+        widget.triggerFoo(42, true);
+    }).not.toThrow();
+    expect(onHandlerError).toHaveBeenCalledWith(error, "foo", [42, true]);
+});
+
+test("emitAsync is inherited", async () => {
+    class AsyncWidget extends WithEventEmitter<Events> {
+        public triggerFooAsync(a: number, b: boolean): Promise<void> {
+            return this.emitAsync.foo(a, b);
+        }
+    }
+
+    const widget = new AsyncWidget();
+    const output: string[] = [];
+
+    widget.on("foo", async () => {
+        await flushPromises();
+        output.push("handled");
+    });
+
+    await widget.triggerFooAsync(42, true);
+
+    expect(output).toEqual(["handled"]);
+});
+
+test("Subscription introspection is inherited", () => {
+    class LazyWidget extends WithEventEmitter<Events> {
+        public getListenerInfo(): [number, boolean, boolean, string[]] {
+            return [
+                this.listenerCount("foo"),
+                this.hasListeners("foo"),
+                this.hasListeners(),
+                this.activeEventNames(),
+            ];
+        }
+    }
+
+    const widget = new LazyWidget();
+    expect(widget.getListenerInfo()).toEqual([0, false, false, []]);
+
+    const cancel = widget.on("foo", () => undefined);
+    expect(widget.getListenerInfo()).toEqual([1, true, true, ["foo"]]);
+
+    cancel();
+    expect(widget.getListenerInfo()).toEqual([0, false, false, []]);
+});
+
+test("Subscriber lifecycle hooks are implemented by overriding protected methods", () => {
+    const calls: string[] = [];
+
+    class LazyWidget extends WithEventEmitter<Events> {
+        protected onActivated(): void {
+            calls.push("activated");
+        }
+
+        protected onFirstSubscriber(eventName: keyof Events): void {
+            calls.push(`first:${eventName}`);
+        }
+
+        protected onLastUnsubscriber(eventName: keyof Events): void {
+            calls.push(`last:${eventName}`);
+        }
+
+        protected onDeactivated(): void {
+            calls.push("deactivated");
+        }
+    }
+
+    const widget = new LazyWidget();
+    const cancel = widget.on("foo", () => undefined);
+    cancel();
+
+    expect(calls).toEqual([
+        "activated",
+        "first:foo",
+        "last:foo",
+        "deactivated",
+    ]);
+});
+
+test("onAny() is passed through", () => {
+    const widget = new Widget();
+    const handler = jest.fn();
+
+    const cancel = widget.onAny(handler);
+    widget.triggerFoo(42, true);
+    cancel();
+    widget.triggerFoo(1337, false);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenLastCalledWith("foo", [42, true]);
+});
+
+test("iterate() is passed through", async () => {
+    const widget = new Widget();
+    const iterator = widget.iterate("foo");
+
+    widget.triggerFoo(42, true);
+
+    expect(await iterator.next()).toEqual({ value: [42, true], done: false });
+});
+
+test("pause() and resume() are available to subclasses", () => {
+    const calls: string[] = [];
+
+    class BulkWidget extends WithEventEmitter<Events> {
+        public bulkUpdate(values: number[]): void {
+            this.pause();
+
+            for (const value of values) {
+                this.emit.foo(value, true);
+            }
+
+            calls.push(`paused:${this.isPaused()}`);
+            this.resume();
+        }
+    }
+
+    const widget = new BulkWidget();
+    widget.on("foo", (a) => {
+        calls.push(`foo:${a}`);
+    });
+    widget.bulkUpdate([1, 2]);
+
+    expect(calls).toEqual(["paused:true", "foo:1", "foo:2"]);
+});
+
+test("batch() is available to subclasses", () => {
+    class BulkWidget extends WithEventEmitter<Events> {
+        public constructor() {
+            super({ coalesce: { foo: "last" } });
+        }
+
+        public bulkUpdate(values: number[]): void {
+            this.batch(() => {
+                for (const value of values) {
+                    this.emit.foo(value, true);
+                }
+            });
+        }
+    }
+
+    const widget = new BulkWidget();
+    const foo = jest.fn();
+    widget.on("foo", foo);
+    widget.bulkUpdate([1, 2, 3]);
+
+    expect(foo.mock.calls).toEqual([[3, true]]);
+});
+
+test("dispose() is available to subclasses", async () => {
+    class ClosableWidget extends WithEventEmitter<Events> {
+        public close(): boolean {
+            this.dispose();
+            return this.isDisposed;
+        }
+    }
+
+    const widget = new ClosableWidget();
+    const promise = widget.onceAsPromise("foo");
+
+    expect(widget.close()).toBe(true);
+
+    await expect(promise).rejects.toBeInstanceOf(DisposedError);
+});
+
+test("use() is available to subclasses", () => {
+    class ClampedWidget extends WithEventEmitter<Events> {
+        public constructor() {
+            super();
+            this.use((...emit) => {
+                if (emit[0] === "foo") {
+                    emit[2]([Math.min(emit[1][0], 10), emit[1][1]]);
+                } else {
+                    emit[2]();
+                }
+            });
+        }
+
+        public update(value: number): void {
+            this.emit.foo(value, true);
+        }
+    }
+
+    const widget = new ClampedWidget();
+    const foo = jest.fn();
+    widget.on("foo", foo);
+    widget.update(5);
+    widget.update(42);
+
+    expect(foo.mock.calls).toEqual([
+        [5, true],
+        [10, true],
+    ]);
+});
+
+test("invoke() is available to subclasses", async () => {
+    class Validator extends WithEventEmitter<{
+        validate(value: string): string | undefined;
+        load(): Promise<number>;
+    }> {
+        public validate(value: string): string | undefined {
+            return this.invoke("validate", [value], firstDefined);
+        }
+
+        public load(): Promise<(number | undefined)[]> {
+            return this.invokeAsync("load", []);
+        }
+    }
+
+    const validator = new Validator();
+    validator.on("validate", (value) => (value ? undefined : "Required"));
+    validator.on("load", async () => 42);
+
+    expect(validator.validate("")).toBe("Required");
+    expect(validator.validate("a")).toBeUndefined();
+    await expect(validator.load()).resolves.toEqual([42]);
+});
@@ -1,11 +1,22 @@
+/// <reference lib="es2018.asynciterable" />
+
 import { EventEmitter } from "./EventEmitter";
 import {
+    AnyEventHandlerOf,
+    EmitInterceptor,
     EventsConstraint,
     EventHandler,
     EventHandlers,
     EventSource,
     EventNames,
+    InvokeAsyncResult,
+    InvokeReducer,
+    InvokeResult,
     SubscriptionCanceller,
+    SubscriptionOptions,
+    WaitOptions,
+    IterateOptions,
+    WithEventEmitterOptions,
 } from "./types.private";
 
 /**
@@ -15,6 +26,9 @@ import {
  * When inheriting from this class, your class will gain:
  * - A protected [emit]{@link WithEventEmitter#emit} property for emitting
  *   events to subscribers (just like {@link EventEmitter#emit}).
+ * - A protected [emitAsync]{@link WithEventEmitter#emitAsync} property for
+ *   emitting events and waiting for async handlers to complete (just like
+ *   {@link EventEmitter#emitAsync}).
  * - Public methods for subscribing to your events (all methods of {@link EventSource}).
  *
  * NOTE: You must explicitly provide an interface for your events as the Events
@@ -74,12 +88,244 @@ export class WithEventEmitter<Events extends EventsConstraint<Events>>
      */
     protected emit: EventEmitter<Events>["emit"];
 
+    /**
+     * A convenient proxy for emitting to all subscribed handlers of any event,
+     * and waiting for all of them to complete (just like
+     * {@link EventEmitter#emitAsync}).
+     */
+    protected emitAsync: EventEmitter<Events>["emitAsync"];
+
     /**
      * @param options - Configuration options for the events.
      */
-    constructor() {
-        this.eventEmitter = new EventEmitter<Events>();
+    constructor(options?: WithEventEmitterOptions<Events>) {
+        this.eventEmitter = new EventEmitter<Events>({
+            ...options,
+            onFirstSubscriber: (eventName) => this.onFirstSubscriber(eventName),
+            onLastUnsubscriber: (eventName) =>
+                this.onLastUnsubscriber(eventName),
+            onActivated: () => this.onActivated(),
+            onDeactivated: () => this.onDeactivated(),
+        });
         this.emit = this.eventEmitter.emit;
+        this.emitAsync = this.eventEmitter.emitAsync;
+    }
+
+    /**
+     * Called when an event gains its first subscriber.
+     * Override this to lazily setup resources needed to emit the event.
+     * See {@link SubscriberLifecycleHooks#onFirstSubscriber}.
+     *
+     * @param eventName - The name of the event.
+     */
+    protected onFirstSubscriber(eventName: EventNames<Events>): void {
+        // Empty default implementation
+    }
+
+    /**
+     * Called when the last subscription to an event is cancelled.
+     * Override this to release resources that were setup in
+     * {@link #onFirstSubscriber}.
+     * See {@link SubscriberLifecycleHooks#onLastUnsubscriber}.
+     *
+     * @param eventName - The name of the event.
+     */
+    protected onLastUnsubscriber(eventName: EventNames<Events>): void {
+        // Empty default implementation
+    }
+
+    /**
+     * Called when this object gains its first subscriber to any event.
+     * See {@link SubscriberLifecycleHooks#onActivated}.
+     */
+    protected onActivated(): void {
+        // Empty default implementation
+    }
+
+    /**
+     * Called when the last subscription to any event is cancelled.
+     * See {@link SubscriberLifecycleHooks#onDeactivated}.
+     */
+    protected onDeactivated(): void {
+        // Empty default implementation
+    }
+
+    /**
+     * Gets the number of handlers currently subscribed to an event.
+     * See {@link EventEmitter#listenerCount}.
+     *
+     * @param eventName - A valid event name for the Events interface.
+     * @returns The number of handlers currently subscribed to the event.
+     */
+    protected listenerCount(eventName: EventNames<Events>): number {
+        return this.eventEmitter.listenerCount(eventName);
+    }
+
+    /**
+     * Checks whether any handlers are currently subscribed to an event, or
+     * to any event at all.
+     * See {@link EventEmitter#hasListeners}.
+     *
+     * @param eventName - A valid event name for the Events interface. If
+     *        omitted, all events are checked.
+     * @returns True if at least one handler is subscribed to the specified
+     *          event (or to any event, if no event name is specified).
+     */
+    protected hasListeners(eventName?: EventNames<Events>): boolean {
+        return this.eventEmitter.hasListeners(eventName);
+    }
+
+    /**
+     * Gets the names of all events that currently have at least one
+     * subscribed handler.
+     * See {@link EventEmitter#activeEventNames}.
+     *
+     * @returns An array of event names.
+     */
+    protected activeEventNames(): EventNames<Events>[] {
+        return this.eventEmitter.activeEventNames();
+    }
+
+    /**
+     * Suspends delivery of events.
+     * See {@link EventEmitter#pause}.
+     */
+    protected pause(): void {
+        this.eventEmitter.pause();
+    }
+
+    /**
+     * Resumes delivery of events after a call to {@link #pause}.
+     * See {@link EventEmitter#resume}.
+     */
+    protected resume(): void {
+        this.eventEmitter.resume();
+    }
+
+    /**
+     * Collects all events emitted while calling a function, then delivers
+     * them (coalesced) when the function returns.
+     * See {@link EventEmitter#batch}.
+     *
+     * @param fn - The function to call.
+     * @returns The return value of `fn`.
+     */
+    protected batch<Result>(fn: () => Result): Result {
+        return this.eventEmitter.batch(fn);
+    }
+
+    /**
+     * Checks whether delivery of events is currently suspended.
+     * See {@link EventEmitter#isPaused}.
+     *
+     * @returns True if paused.
+     */
+    protected isPaused(): boolean {
+        return this.eventEmitter.isPaused();
+    }
+
+    /**
+     * Forgets the remembered emits of an event (or of all events), so that
+     * they are no longer replayed to new subscribers.
+     * See {@link EventEmitter#clearReplay}.
+     *
+     * @param eventName - A valid event name for the Events interface. If
+     *        omitted, the remembered emits of all events are forgotten.
+     */
+    protected clearReplay(eventName?: EventNames<Events>): void {
+        this.eventEmitter.clearReplay(eventName);
+    }
+
+    /**
+     * Emits an event and collects the results returned by its handlers.
+     * See {@link EventEmitter#invoke}.
+     *
+     * @param eventName - A valid event name for the Events interface.
+     * @param args - The arguments to pass to all handlers.
+     * @param reducer - Combines the results of the handlers into the return
+     *        value.
+     * @returns The results of the event's handlers, or the value combined
+     *          from them by the `reducer`.
+     */
+    protected invoke<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>
+    ): InvokeResult<Events[EventName]>[];
+    protected invoke<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer: InvokeReducer<InvokeResult<Events[EventName]>, Reduced>
+    ): Reduced;
+    protected invoke<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer?: InvokeReducer<InvokeResult<Events[EventName]>, Reduced>
+    ): InvokeResult<Events[EventName]>[] | Reduced {
+        return reducer
+            ? this.eventEmitter.invoke(eventName, args, reducer)
+            : this.eventEmitter.invoke(eventName, args);
+    }
+
+    /**
+     * Emits an event and waits for the results returned by its handlers.
+     * See {@link EventEmitter#invokeAsync}.
+     *
+     * @param eventName - A valid event name for the Events interface.
+     * @param args - The arguments to pass to all handlers.
+     * @param reducer - Combines the resolved results of the handlers into the
+     *        resolved value.
+     * @returns A Promise that resolves to the results of the event's
+     *          handlers, or the value combined from them by the `reducer`.
+     */
+    protected invokeAsync<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>
+    ): Promise<InvokeAsyncResult<Events[EventName]>[]>;
+    protected invokeAsync<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer: InvokeReducer<InvokeAsyncResult<Events[EventName]>, Reduced>
+    ): Promise<Reduced>;
+    protected invokeAsync<EventName extends EventNames<Events>, Reduced>(
+        eventName: EventName,
+        args: Parameters<Events[EventName]>,
+        reducer?: InvokeReducer<InvokeAsyncResult<Events[EventName]>, Reduced>
+    ): Promise<InvokeAsyncResult<Events[EventName]>[] | Reduced> {
+        return reducer
+            ? this.eventEmitter.invokeAsync(eventName, args, reducer)
+            : this.eventEmitter.invokeAsync(eventName, args);
+    }
+
+    /**
+     * Adds an interceptor of all emits, which can change the arguments of an
+     * emit, or veto it, before it is delivered.
+     * See {@link EventEmitter#use}.
+     *
+     * @param interceptor - The interceptor to add.
+     * @returns A callback function that, when called, will remove the
+     *          interceptor.
+     */
+    protected use(interceptor: EmitInterceptor<Events>): SubscriptionCanceller {
+        return this.eventEmitter.use(interceptor);
+    }
+
+    /**
+     * Tears down the events of this object: all subscriptions are cancelled
+     * and pending waits are rejected.
+     * See {@link EventEmitter#dispose}.
+     * Override this as a public method (calling `super.dispose()`) to allow
+     * consuming code to dispose of this object.
+     */
+    protected dispose(): void {
+        this.eventEmitter.dispose();
+    }
+
+    /**
+     * True after {@link #dispose} has been called.
+     * See {@link EventEmitter#isDisposed}.
+     */
+    protected get isDisposed(): boolean {
+        return this.eventEmitter.isDisposed;
     }
 
     /**
@@ -87,9 +333,20 @@ export class WithEventEmitter<Events extends EventsConstraint<Events>>
      */
     public on<EventName extends EventNames<Events>>(
         eventName: EventName,
-        handler: EventHandler<Events[EventName]>
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller {
+        return this.eventEmitter.on(eventName, handler, options);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public onAny(
+        handler: AnyEventHandlerOf<Events>,
+        options?: SubscriptionOptions
     ): SubscriptionCanceller {
-        return this.eventEmitter.on(eventName, handler);
+        return this.eventEmitter.onAny(handler, options);
     }
 
     /**
@@ -97,26 +354,69 @@ export class WithEventEmitter<Events extends EventsConstraint<Events>>
      */
     public once<EventName extends EventNames<Events>>(
         eventName: EventName,
-        handler: EventHandler<Events[EventName]>
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
     ): SubscriptionCanceller {
-        return this.eventEmitter.once(eventName, handler);
+        return this.eventEmitter.once(eventName, handler, options);
     }
 
     /**
      * @inheritdoc
      */
     public onceAsPromise<EventName extends EventNames<Events>>(
-        eventName: EventName
+        eventName: EventName,
+        options?: WaitOptions<Events>
     ): Promise<Parameters<EventHandler<Events[EventName]>>> {
-        return this.eventEmitter.onceAsPromise(eventName);
+        return this.eventEmitter.onceAsPromise(eventName, options);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public waitFor<
+        EventName extends EventNames<Events>,
+        Narrowed extends Parameters<EventHandler<Events[EventName]>>
+    >(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => args is Narrowed,
+        options?: WaitOptions<Events>
+    ): Promise<Narrowed>;
+    public waitFor<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => boolean,
+        options?: WaitOptions<Events>
+    ): Promise<Parameters<EventHandler<Events[EventName]>>>;
+    public waitFor<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => boolean,
+        options?: WaitOptions<Events>
+    ): Promise<Parameters<EventHandler<Events[EventName]>>> {
+        return this.eventEmitter.waitFor(eventName, predicate, options);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public iterate<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        options?: IterateOptions<Events>
+    ): AsyncIterableIterator<Parameters<EventHandler<Events[EventName]>>> {
+        return this.eventEmitter.iterate(eventName, options);
     }
 
     /**
      * @inheritdoc
      */
     public subscribe(
-        handlers: Partial<EventHandlers<Events>>
+        handlers: Partial<EventHandlers<Events>>,
+        options?: SubscriptionOptions
     ): SubscriptionCanceller {
-        return this.eventEmitter.subscribe(handlers);
+        return this.eventEmitter.subscribe(handlers, options);
     }
 }
@@ -0,0 +1,65 @@
+import { AbortError } from "./errors";
+import { AbortSignalLike, CancelFunction } from "./types.private";
+
+/**
+ * Ties a subscription to an optional AbortSignal.
+ * If the signal is already aborted, `subscribe` is not called at all.
+ * Otherwise, the subscription is cancelled when the signal is aborted.
+ * @param signal - An optional AbortSignal.
+ * @param subscribe - Creates the subscription.
+ * @param addCloser - Registers a callback that stops listening to the signal
+ *        when the subscription ends without being cancelled through the
+ *        returned callback (e.g., when its EventSource is disposed). Returns
+ *        a callback that unregisters it.
+ * @returns A callback function that cancels the subscription and stops
+ *          listening to the signal.
+ */
+export function subscribeWithSignal(
+    signal: AbortSignalLike | undefined,
+    subscribe: () => CancelFunction,
+    addCloser: (stopListening: () => void) => CancelFunction
+): CancelFunction {
+    if (!signal) {
+        return subscribe();
+    }
+
+    if (signal.aborted) {
+        return () => {
+            // Nothing to cancel
+        };
+    }
+
+    const cancel = subscribe();
+    // Undefined until registered, which may stop listening immediately
+    let removeCloser: CancelFunction | undefined;
+
+    const stopListening = (): void => {
+        signal.removeEventListener("abort", onAbort);
+
+        if (removeCloser) {
+            removeCloser();
+        }
+    };
+    const onAbort = (): void => {
+        stopListening();
+        cancel();
+    };
+
+    signal.addEventListener("abort", onAbort);
+    removeCloser = addCloser(stopListening);
+
+    return () => {
+        stopListening();
+        cancel();
+    };
+}
+
+/**
+ * Gets the reason an AbortSignal was aborted, falling back to an
+ * {@link AbortError} for signals that do not provide a reason.
+ * @param signal - An aborted AbortSignal.
+ * @returns The value that a pending wait should be rejected with.
+ */
+export function getAbortReason(signal: AbortSignalLike): unknown {
+    return signal.reason !== undefined ? signal.reason : new AbortError();
+}
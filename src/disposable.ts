@@ -0,0 +1,30 @@
+import { CancelFunction, SubscriptionCanceller } from "./types.private";
+
+/**
+ * The `Symbol.dispose` well-known symbol, as provided when this module is
+ * loaded.
+ *
+ * NOTE: Runtimes that do not provide `Symbol.dispose` natively require a
+ *       polyfill to be loaded BEFORE this module. Otherwise, a private
+ *       fallback symbol is used, so `using` declarations cannot dispose of
+ *       emitters and subscriptions.
+ */
+export const disposeSymbol: typeof Symbol.dispose =
+    typeof Symbol.dispose === "symbol"
+        ? Symbol.dispose
+        : (Symbol("Symbol.dispose") as typeof Symbol.dispose);
+
+/**
+ * Makes a cancel function disposable, so that it can be held by a `using`
+ * declaration.
+ * @param cancel - A callback function that cancels a subscription.
+ * @returns The same function, which also cancels the subscription when
+ *          disposed.
+ */
+export function toSubscriptionCanceller(
+    cancel: CancelFunction
+): SubscriptionCanceller {
+    const canceller = cancel as SubscriptionCanceller;
+    canceller[disposeSymbol] = cancel;
+    return canceller;
+}
@@ -0,0 +1,247 @@
+/**
+ * Error thrown by an {@link EventEmitter} configured with the "aggregate"
+ * {@link HandlerErrorPolicy} when one or more event handlers throw while
+ * an event is being emitted.
+ *
+ * All handlers of the event are still called before this error is thrown.
+ */
+export class EventHandlerAggregateError extends Error {
+    /**
+     * All errors thrown by event handlers, in the order the handlers were called.
+     */
+    public readonly errors: unknown[];
+
+    /**
+     * The name of the event that was being emitted.
+     */
+    public readonly eventName: string | symbol;
+
+    /**
+     * @param errors - All errors thrown by event handlers.
+     * @param eventName - The name of the event that was being emitted.
+     */
+    public constructor(errors: unknown[], eventName: string | symbol) {
+        super(
+            `${errors.length} event handler(s) threw while emitting "${String(
+                eventName
+            )}"`
+        );
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "EventHandlerAggregateError";
+        this.errors = errors;
+        this.eventName = eventName;
+    }
+}
+
+/**
+ * Error used to reject a pending wait (e.g., {@link EventSource#onceAsPromise})
+ * when its AbortSignal is aborted without a reason.
+ */
+export class AbortError extends Error {
+    public constructor(message: string = "The operation was aborted") {
+        super(message);
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "AbortError";
+    }
+}
+
+/**
+ * Error used to reject a pending wait (e.g., {@link EventSource#onceAsPromise})
+ * when its {@link WaitOptions#timeout} elapses before the event is emitted.
+ */
+export class TimeoutError extends Error {
+    /**
+     * The name of the event that was being waited for.
+     */
+    public readonly eventName: string | symbol;
+
+    /**
+     * The timeout, in milliseconds.
+     */
+    public readonly timeout: number;
+
+    /**
+     * @param eventName - The name of the event that was being waited for.
+     * @param timeout - The timeout, in milliseconds.
+     */
+    public constructor(eventName: string | symbol, timeout: number) {
+        super(
+            `Timed out after ${timeout}ms waiting for "${String(eventName)}"`
+        );
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "TimeoutError";
+        this.eventName = eventName;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Error used to reject a pending wait (e.g., {@link EventSource#onceAsPromise})
+ * when the event specified by {@link WaitOptions#rejectOn} is emitted first.
+ */
+export class EventRejectionError extends Error {
+    /**
+     * The name of the event that caused the rejection.
+     */
+    public readonly eventName: string | symbol;
+
+    /**
+     * The arguments the rejecting event was emitted with.
+     */
+    public readonly args: unknown[];
+
+    /**
+     * @param eventName - The name of the event that caused the rejection.
+     * @param args - The arguments the rejecting event was emitted with.
+     */
+    public constructor(eventName: string | symbol, args: unknown[]) {
+        super(`Wait was rejected by event "${String(eventName)}"`);
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "EventRejectionError";
+        this.eventName = eventName;
+        this.args = args;
+    }
+}
+
+/**
+ * Error used to end an iteration created by {@link EventSource#iterate} with the
+ * "throw" {@link BufferOverflowStrategy} when events are emitted faster than
+ * they are consumed.
+ */
+export class BufferOverflowError extends Error {
+    /**
+     * The name of the event that was being iterated.
+     */
+    public readonly eventName: string | symbol;
+
+    /**
+     * The size of the buffer that overflowed.
+     */
+    public readonly bufferSize: number;
+
+    /**
+     * @param eventName - The name of the event that was being iterated.
+     * @param bufferSize - The size of the buffer that overflowed.
+     */
+    public constructor(eventName: string | symbol, bufferSize: number) {
+        super(
+            `More than ${bufferSize} unconsumed "${String(
+                eventName
+            )}" event(s) were buffered`
+        );
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "BufferOverflowError";
+        this.eventName = eventName;
+        this.bufferSize = bufferSize;
+    }
+}
+
+/**
+ * Error thrown when an {@link EventEmitter} is used after it was disposed
+ * (see {@link AfterDisposeBehavior}), and used to reject waits (e.g.,
+ * {@link EventSource#onceAsPromise}) that are pending when, or started after,
+ * it is disposed.
+ */
+export class DisposedError extends Error {
+    public constructor(message: string = "The EventEmitter has been disposed") {
+        super(message);
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "DisposedError";
+    }
+}
+
+/**
+ * Error thrown by an {@link EventEmitter} when an emit would exceed the
+ * [maxEmitDepth]{@link EventEmitterOptions#maxEmitDepth} of nested (or, with
+ * the "queue" {@link ReentrancyMode}, chained) emits of the same event, which
+ * usually means that event handlers are emitting events in a cycle.
+ */
+export class EmitDepthError extends Error {
+    /**
+     * The name of the event whose emit exceeded the maximum depth.
+     */
+    public readonly eventName: string | symbol;
+
+    /**
+     * Names of all events that were being delivered, from the outermost emit
+     * to the emit that exceeded the maximum depth.
+     */
+    public readonly eventChain: (string | symbol)[];
+
+    /**
+     * The maximum number of nested emits of the same event.
+     */
+    public readonly maxEmitDepth: number;
+
+    /**
+     * @param eventChain - Names of all events that were being delivered, from
+     *        the outermost emit to the emit that exceeded the maximum depth.
+     * @param maxEmitDepth - The maximum number of nested emits of the same
+     *        event.
+     */
+    public constructor(eventChain: (string | symbol)[], maxEmitDepth: number) {
+        const eventName = eventChain[eventChain.length - 1];
+        // Show only the most recent cycle, which repeats throughout the chain
+        const cycleStart = eventChain.lastIndexOf(
+            eventName,
+            eventChain.length - 2
+        );
+        const cycle = eventChain
+            .slice(Math.max(cycleStart, 0))
+            .map((name) => `"${String(name)}"`)
+            .join(" -> ");
+
+        super(
+            `Exceeded ${maxEmitDepth} nested emit(s) of "${String(
+                eventName
+            )}" via: ${cycle}`
+        );
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "EmitDepthError";
+        this.eventName = eventName;
+        this.eventChain = eventChain;
+        this.maxEmitDepth = maxEmitDepth;
+    }
+}
+
+/**
+ * Error thrown by the `next` function of an {@link EmitInterceptor} when it
+ * is called after the interceptor returned. Interceptors must continue (or
+ * veto) emits synchronously.
+ */
+export class InterceptorNextError extends Error {
+    /**
+     * The name of the event whose emit was intercepted.
+     */
+    public readonly eventName: string | symbol;
+
+    /**
+     * @param eventName - The name of the event whose emit was intercepted.
+     */
+    public constructor(eventName: string | symbol) {
+        super(
+            `An interceptor continued the emit of "${String(
+                eventName
+            )}" after it returned; interceptors must call next() synchronously`
+        );
+        // Restore the prototype chain, which is broken when extending
+        // built-in classes and transpiling to ES5.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "InterceptorNextError";
+        this.eventName = eventName;
+    }
+}
@@ -0,0 +1,72 @@
+import {
+    EventOperator,
+    OperatorEventHandler,
+    CancelFunction,
+} from "./types.private";
+
+/**
+ * Creates a subscription with its event passed through a new instance of
+ * an {@link EventOperator}.
+ * @param operator - The operator.
+ * @param deliver - Calls the subscribed handler with the operator's output.
+ * @param subscribeUpstream - Subscribes to the event, calling `next` with the
+ *        arguments of every emit. The subscribed handler must be given
+ *        `cancel` as its teardown (see {@link withTeardown}), so that the
+ *        operator instance is disposed if the upstream subscription is
+ *        cancelled by disposing its emitter.
+ * @returns A callback function that, when called, will cancel the
+ *          subscription and dispose of the operator instance.
+ */
+export function subscribeThroughOperator(
+    operator: EventOperator,
+    deliver: (args: unknown[]) => void | Promise<void>,
+    subscribeUpstream: (
+        next: (args: unknown[]) => void | Promise<void>,
+        cancel: CancelFunction
+    ) => CancelFunction
+): CancelFunction {
+    let isCancelled = false;
+    // Undefined until subscribed, which may tear down the subscription
+    // immediately (e.g., when subscribing to a disposed emitter).
+    let cancelUpstream: CancelFunction | undefined;
+
+    const cancel = (): void => {
+        if (isCancelled) {
+            return;
+        }
+
+        isCancelled = true;
+
+        if (cancelUpstream) {
+            cancelUpstream();
+        }
+
+        if (operatorSubscription.dispose) {
+            operatorSubscription.dispose();
+        }
+    };
+
+    const operatorSubscription = operator(deliver, cancel);
+    cancelUpstream = subscribeUpstream((args) => {
+        if (!isCancelled) {
+            return operatorSubscription.next(args);
+        }
+    }, cancel);
+
+    if (isCancelled) {
+        cancelUpstream();
+    }
+
+    return cancel;
+}
+
+/**
+ * Custom type guard for {@link OperatorEventHandler}.
+ * @param value Any value
+ * @returns True if the value is an OperatorEventHandler.
+ */
+export function isOperatorEventHandler(
+    value: any
+): value is OperatorEventHandler<any> {
+    return typeof value === "object" && value.type && value.type === "operator";
+}
@@ -0,0 +1,78 @@
+/**
+ * Access to the runtime globals used by this project.
+ *
+ * This project does not depend on DOM or Node.js type definitions, so the
+ * minimal subset of the globals that are common to all supported runtimes is
+ * declared here (scoped to this module).
+ */
+
+/**
+ * An opaque handle to a timer created by {@link setTimer}.
+ */
+export type TimerHandle = unknown;
+
+declare const console: {
+    error(...data: unknown[]): void;
+    warn(...data: unknown[]): void;
+    log(...data: unknown[]): void;
+};
+
+declare const performance: { now(): number } | undefined;
+
+declare function setTimeout(callback: () => void, delay: number): TimerHandle;
+
+declare function clearTimeout(handle: TimerHandle): void;
+
+/**
+ * Logs an error with `console.error()`.
+ * @param data - Values to log.
+ */
+export function logError(...data: unknown[]): void {
+    console.error(...data);
+}
+
+/**
+ * Logs a warning with `console.warn()`.
+ * @param data - Values to log.
+ */
+export function logWarning(...data: unknown[]): void {
+    console.warn(...data);
+}
+
+/**
+ * Logs a message with `console.log()`.
+ * @param data - Values to log.
+ */
+export function logMessage(...data: unknown[]): void {
+    // tslint:disable-next-line:no-console
+    console.log(...data);
+}
+
+/**
+ * Gets the current time, using `performance.now()` where available (for
+ * sub-millisecond precision), or `Date.now()` otherwise.
+ * @returns The current time, in milliseconds.
+ */
+export function now(): number {
+    return typeof performance !== "undefined" && performance
+        ? performance.now()
+        : Date.now();
+}
+
+/**
+ * Calls a function after a delay, using `setTimeout()`.
+ * @param callback - The function to call.
+ * @param delay - The delay, in milliseconds.
+ * @returns A handle that can be passed to {@link clearTimer}.
+ */
+export function setTimer(callback: () => void, delay: number): TimerHandle {
+    return setTimeout(callback, delay);
+}
+
+/**
+ * Cancels a timer created by {@link setTimer}, using `clearTimeout()`.
+ * @param handle - The timer's handle.
+ */
+export function clearTimer(handle: TimerHandle): void {
+    clearTimeout(handle);
+}
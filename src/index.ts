@@ -1,4 +1,11 @@
 export * from "./types.public";
 export * from "./EventEmitter";
 export * from "./WithEventEmitter";
+export * from "./SubscriptionGroup";
+export * from "./errors";
 export { once } from "./once";
+export { withPriority } from "./withPriority";
+export { map, filter, take, skip } from "./operators";
+export { debounce, throttle, audit } from "./timing";
+export { setGlobalTracer, createConsoleTracer } from "./tracing";
+export { firstDefined, fold } from "./reducers";
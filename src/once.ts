@@ -24,3 +24,36 @@ export function once<F extends AnyEventHandler>(
 export function isOnceEventHandler(value: any): value is OnceEventHandler<any> {
     return typeof value === "object" && value.type && value.type === "once";
 }
+
+/**
+ * An event handler marked by {@link asOneShot}.
+ */
+interface OneShotHandler {
+    isOneShot?: boolean;
+}
+
+/**
+ * Marks an event handler as one-shot: it only acts on the first call it
+ * accepts, and ignores any later calls (e.g., the handlers subscribed by
+ * {@link EventSource#once} and {@link EventSource#onceAsPromise}).
+ *
+ * An {@link EventEmitter} only replays the most recent remembered emit to
+ * one-shot handlers (see {@link EventEmitterOptions#replay}).
+ * @param handler - An event handler created for the subscription.
+ * @returns The same handler.
+ */
+export function asOneShot<Handler extends (...args: any[]) => unknown>(
+    handler: Handler
+): Handler {
+    (handler as OneShotHandler).isOneShot = true;
+    return handler;
+}
+
+/**
+ * Tests whether an event handler was marked by {@link asOneShot}.
+ * @param handler - An event handler.
+ * @returns True if the handler is one-shot.
+ */
+export function isOneShot(handler: (...args: any[]) => unknown): boolean {
+    return !!(handler as OneShotHandler).isOneShot;
+}
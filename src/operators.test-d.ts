@@ -0,0 +1,86 @@
+// tslint:disable:no-unused-expression
+// NOTE: import from root/index to test against publicly exported types
+import { EventEmitter, EventSource, map, filter, take, skip } from ".";
+import { expectType, expectError } from "tsd";
+
+const baz = Symbol("baz");
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number, b: boolean): void;
+    bar(a: string): void;
+    [baz](a: boolean): void;
+}
+
+const eventEmitter = new EventEmitter<Events>();
+
+// map()
+{
+    const derived = map(eventEmitter, "foo", ([a, b]) => {
+        expectType<number>(a);
+        expectType<boolean>(b);
+        return [`${a}`];
+    });
+
+    derived.on("foo", (a) => {
+        expectType<string>(a);
+    });
+
+    // other events are unchanged
+    derived.on("bar", (a) => {
+        expectType<string>(a);
+    });
+    derived.on(baz, (a) => {
+        expectType<boolean>(a);
+    });
+
+    // invalid event name
+    expectError(map(eventEmitter, "broken", () => []));
+
+    // must return a tuple
+    expectError(map(eventEmitter, "foo", () => "foo"));
+}
+
+// filter()
+{
+    // unchanged Events for a boolean predicate
+    expectType<EventSource<Events>>(
+        filter(eventEmitter, "foo", ([a, b]) => {
+            expectType<number>(a);
+            expectType<boolean>(b);
+            return b;
+        })
+    );
+
+    // narrowed event for a type guard predicate
+    filter(
+        eventEmitter,
+        "foo",
+        (args): args is [1, true] => args[0] === 1 && args[1]
+    ).on("foo", (a, b) => {
+        expectType<1>(a);
+        expectType<true>(b);
+    });
+
+    // invalid event name
+    expectError(filter(eventEmitter, "broken", () => true));
+}
+
+// take() and skip()
+{
+    expectType<EventSource<Events>>(take(eventEmitter, "foo", 1));
+    expectType<EventSource<Events>>(skip(eventEmitter, "foo", 1));
+    expectError(take(eventEmitter, "broken", 1));
+    expectError(skip(eventEmitter, "foo", "1"));
+}
+
+// composition
+{
+    map(
+        filter(take(eventEmitter, "bar", 1), "foo", ([a]) => a > 0),
+        "foo",
+        ([a]) => [a > 1]
+    ).on("foo", (a) => {
+        expectType<boolean>(a);
+    });
+}
@@ -0,0 +1,253 @@
+import { EventEmitter } from "./EventEmitter";
+import { DisposedError } from "./errors";
+import { map, filter, take, skip } from "./operators";
+
+const baz = Symbol("baz");
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number, b: boolean): void;
+    bar(): void;
+    [baz](): void;
+}
+
+describe("Derived EventSources", () => {
+    test("Subscribe upstream only while there are downstream subscribers", () => {
+        const emitter = new EventEmitter<Events>();
+        const derived = map(emitter, "foo", ([a]) => [a]);
+
+        expect(emitter.hasListeners()).toBe(false);
+
+        const cancelFoo = derived.on("foo", jest.fn());
+        const cancelAny = derived.onAny(jest.fn());
+        expect(emitter.listenerCount("foo")).toBe(2);
+
+        cancelFoo();
+        cancelAny();
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("Other events are passed through untouched", () => {
+        const emitter = new EventEmitter<Events>();
+        const derived = filter(emitter, "foo", () => false);
+
+        const bar = jest.fn();
+        const bazHandler = jest.fn();
+        const anyHandler = jest.fn();
+        derived.subscribe({ bar, [baz]: bazHandler });
+        derived.onAny(anyHandler);
+
+        emitter.emit.bar();
+        emitter.emit[baz]();
+        emitter.emit.foo(42, true);
+
+        expect(bar).toHaveBeenCalledTimes(1);
+        expect(bazHandler).toHaveBeenCalledTimes(1);
+        expect(anyHandler.mock.calls).toEqual([
+            ["bar", []],
+            [baz, []],
+        ]);
+    });
+
+    test("Support all EventSource methods", async () => {
+        const emitter = new EventEmitter<Events>();
+        const derived = map(emitter, "foo", ([a, b]) => [b, a]);
+
+        const foo = jest.fn();
+        derived.once("foo", foo);
+        const promise = derived.onceAsPromise("foo");
+
+        emitter.emit.foo(42, true);
+        emitter.emit.foo(1337, false);
+
+        expect(foo.mock.calls).toEqual([[true, 42]]);
+        expect(Array.from(await promise)).toEqual([true, 42]);
+        expect(emitter.hasListeners()).toBe(false);
+    });
+
+    test("One-shot subscriptions receive the most recent replayed emit", async () => {
+        const emitter = new EventEmitter<Events>({ replay: { foo: 3 } });
+        emitter.emit.foo(1, true);
+        emitter.emit.foo(2, true);
+        emitter.emit.foo(3, true);
+
+        const derived = map(emitter, "foo", ([a]) => [a * 10]);
+
+        const foo = jest.fn();
+        const fooOnce = jest.fn();
+        derived.on("foo", foo);
+        derived.once("foo", fooOnce);
+
+        expect(foo.mock.calls).toEqual([[10], [20], [30]]);
+        expect(fooOnce.mock.calls).toEqual([[30]]);
+        expect(Array.from(await derived.onceAsPromise("foo"))).toEqual([30]);
+        expect(
+            Array.from(await derived.waitFor("foo", ([a]) => a > 0))
+        ).toEqual([30]);
+    });
+
+    test("Handler errors and results are returned to the upstream EventSource", async () => {
+        const emitter = new EventEmitter<Events>();
+        const derived = map(emitter, "foo", ([a]) => [a]);
+        const error = new Error("Oops!");
+
+        const cancel = derived.on("foo", () => {
+            throw error;
+        });
+        expect(() => emitter.emit.foo(42, true)).toThrow(error);
+        cancel();
+
+        let isResolved = false;
+        derived.on("foo", async () => {
+            await Promise.resolve();
+            isResolved = true;
+        });
+        await emitter.emitAsync.foo(42, true);
+        expect(isResolved).toBe(true);
+    });
+
+    test("Operators can be composed", () => {
+        const emitter = new EventEmitter<Events>();
+        const derived = map(
+            filter(emitter, "foo", ([a]) => a > 0),
+            "foo",
+            ([a]) => [a * 2]
+        );
+
+        const foo = jest.fn();
+        derived.on("foo", foo);
+
+        emitter.emit.foo(-1, true);
+        emitter.emit.foo(21, true);
+
+        expect(foo.mock.calls).toEqual([[42]]);
+    });
+
+    test("Pending waits end when the upstream emitter is disposed", async () => {
+        const emitter = new EventEmitter<Events>();
+        const derived = map(
+            filter(emitter, "foo", () => true),
+            "foo",
+            ([a]) => [a]
+        );
+
+        const promise = derived.onceAsPromise("foo");
+        const passedThroughPromise = derived.onceAsPromise("bar");
+        const iterator = derived.iterate("foo");
+        const next = iterator.next();
+
+        emitter.dispose();
+
+        await expect(promise).rejects.toBeInstanceOf(DisposedError);
+        await expect(passedThroughPromise).rejects.toBeInstanceOf(
+            DisposedError
+        );
+        expect(await next).toEqual({ value: undefined, done: true });
+    });
+
+    test("Waits started after the upstream emitter is disposed end immediately", async () => {
+        const emitter = new EventEmitter<Events>();
+        const derived = map(emitter, "foo", ([a]) => [a]);
+        emitter.dispose();
+
+        await expect(derived.onceAsPromise("foo")).rejects.toBeInstanceOf(
+            DisposedError
+        );
+        expect(await derived.iterate("bar").next()).toEqual({
+            value: undefined,
+            done: true,
+        });
+    });
+});
+
+test("map()", () => {
+    const emitter = new EventEmitter<Events>();
+    const derived = map(emitter, "foo", ([a, b]) => [`${a}:${b}`]);
+
+    const foo = jest.fn();
+    const anyHandler = jest.fn();
+    derived.on("foo", foo);
+    derived.onAny(anyHandler);
+
+    emitter.emit.foo(42, true);
+
+    expect(foo).toHaveBeenCalledWith("42:true");
+    expect(anyHandler).toHaveBeenCalledWith("foo", ["42:true"]);
+});
+
+test("filter()", () => {
+    const emitter = new EventEmitter<Events>();
+    const derived = filter(emitter, "foo", ([a, b]) => b);
+
+    const foo = jest.fn();
+    const anyHandler = jest.fn();
+    derived.on("foo", foo);
+    derived.onAny(anyHandler);
+
+    emitter.emit.foo(1, false);
+    emitter.emit.foo(2, true);
+
+    expect(foo.mock.calls).toEqual([[2, true]]);
+    expect(anyHandler.mock.calls).toEqual([["foo", [2, true]]]);
+});
+
+test("take() counts emits per subscription, then cancels it", () => {
+    const emitter = new EventEmitter<Events>();
+    const derived = take(emitter, "foo", 2);
+
+    const first = jest.fn();
+    derived.on("foo", first);
+    emitter.emit.foo(1, true);
+
+    const second = jest.fn();
+    derived.on("foo", second);
+    emitter.emit.foo(2, true);
+    emitter.emit.foo(3, true);
+
+    expect(first.mock.calls).toEqual([
+        [1, true],
+        [2, true],
+    ]);
+    expect(second.mock.calls).toEqual([
+        [2, true],
+        [3, true],
+    ]);
+    expect(emitter.hasListeners()).toBe(false);
+});
+
+test("take() keeps passing other events through to onAny() subscribers", () => {
+    const emitter = new EventEmitter<Events>();
+    const derived = take(emitter, "foo", 1);
+
+    const anyHandler = jest.fn();
+    derived.onAny(anyHandler);
+    emitter.emit.foo(1, true);
+    emitter.emit.foo(2, true);
+    emitter.emit.bar();
+
+    expect(anyHandler.mock.calls).toEqual([
+        ["foo", [1, true]],
+        ["bar", []],
+    ]);
+    expect(emitter.listenerCount("bar")).toBe(1);
+});
+
+test("skip() counts emits per subscription", () => {
+    const emitter = new EventEmitter<Events>();
+    const derived = skip(emitter, "foo", 1);
+
+    const first = jest.fn();
+    derived.on("foo", first);
+    emitter.emit.foo(1, true);
+
+    const second = jest.fn();
+    derived.on("foo", second);
+    emitter.emit.foo(2, true);
+    emitter.emit.foo(3, true);
+
+    expect(first.mock.calls).toEqual([
+        [2, true],
+        [3, true],
+    ]);
+    expect(second.mock.calls).toEqual([[3, true]]);
+});
@@ -0,0 +1,177 @@
+import { DerivedEventSource } from "./DerivedEventSource";
+import {
+    EventsConstraint,
+    EventSource,
+    EventNames,
+    MapEvent,
+} from "./types.private";
+
+/**
+ * Creates an {@link EventSource} with the arguments of one event transformed.
+ * All other events are passed through untouched.
+ * @param source - The EventSource to derive from.
+ * @param eventName - The name of the event to transform.
+ * @param project - Receives the tuple of arguments of each emit of the event
+ *        (like the predicate of {@link filter}), and returns the tuple of
+ *        arguments for the resulting EventSource.
+ * @returns A new EventSource that subscribes to `source` only while it has
+ *          subscribers.
+ * @example
+ * ```
+ * const percentSource = map(source, "progress", ([loaded, total]) => [
+ *     (loaded / total) * 100,
+ * ]);
+ *
+ * percentSource.on("progress", (percent) => {
+ *     // ...
+ * });
+ * ```
+ */
+export function map<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>,
+    Args extends [] | unknown[]
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    project: (args: Parameters<Events[EventName]>) => Args
+): EventSource<MapEvent<Events, EventName, Args>> {
+    return new DerivedEventSource<MapEvent<Events, EventName, Args>, Events>(
+        source,
+        eventName,
+        (deliver) => ({
+            next: (args) =>
+                deliver(project(args as Parameters<Events[EventName]>)),
+        })
+    );
+}
+
+/**
+ * Creates an {@link EventSource} that only emits one event when its arguments
+ * satisfy a predicate. All other events are passed through untouched.
+ * @param source - The EventSource to derive from.
+ * @param eventName - The name of the event to filter.
+ * @param predicate - Tests the tuple of arguments of each emit of the event.
+ *        If it is a type guard, the arguments of the event are narrowed
+ *        accordingly in the resulting EventSource.
+ * @returns A new EventSource that subscribes to `source` only while it has
+ *          subscribers.
+ * @example
+ * ```
+ * const itemSource = filter(source, "itemChanged", ([id]) => id === itemId);
+ * ```
+ */
+export function filter<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>,
+    Narrowed extends Parameters<Events[EventName]>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    predicate: (args: Parameters<Events[EventName]>) => args is Narrowed
+): EventSource<MapEvent<Events, EventName, Narrowed>>;
+export function filter<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    predicate: (args: Parameters<Events[EventName]>) => boolean
+): EventSource<Events>;
+export function filter<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    predicate: (args: Parameters<Events[EventName]>) => boolean
+): EventSource<Events> {
+    return new DerivedEventSource<Events, Events>(
+        source,
+        eventName,
+        (deliver) => ({
+            next: (args) => {
+                if (predicate(args as Parameters<Events[EventName]>)) {
+                    return deliver(args);
+                }
+            },
+        })
+    );
+}
+
+/**
+ * Creates an {@link EventSource} where each subscription to one event only
+ * receives the first `count` emits of the event, after which the
+ * subscription is cancelled. All other events are passed through untouched
+ * (subscriptions to all events keep receiving them after the `count` emits).
+ * @param source - The EventSource to derive from.
+ * @param eventName - The name of the event to limit.
+ * @param count - The number of emits to receive per subscription.
+ * @returns A new EventSource that subscribes to `source` only while it has
+ *          subscribers.
+ */
+export function take<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    count: number
+): EventSource<Events> {
+    return new DerivedEventSource<Events, Events>(
+        source,
+        eventName,
+        (deliver, complete) => {
+            let remaining = count;
+
+            return {
+                next: (args) => {
+                    if (--remaining <= 0) {
+                        complete();
+                    }
+
+                    if (remaining >= 0) {
+                        return deliver(args);
+                    }
+                },
+            };
+        }
+    );
+}
+
+/**
+ * Creates an {@link EventSource} where each subscription to one event ignores
+ * the first `count` emits of the event. All other events are passed through
+ * untouched.
+ * @param source - The EventSource to derive from.
+ * @param eventName - The name of the event to skip emits of.
+ * @param count - The number of emits to ignore per subscription.
+ * @returns A new EventSource that subscribes to `source` only while it has
+ *          subscribers.
+ */
+export function skip<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    count: number
+): EventSource<Events> {
+    return new DerivedEventSource<Events, Events>(
+        source,
+        eventName,
+        (deliver) => {
+            let remaining = count;
+
+            return {
+                next: (args) => {
+                    if (remaining > 0) {
+                        --remaining;
+                    } else {
+                        return deliver(args);
+                    }
+                },
+            };
+        }
+    );
+}
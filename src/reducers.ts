@@ -0,0 +1,50 @@
+import { InvokeReducer } from "./types.private";
+
+/**
+ * Reducer for {@link EventEmitter#invoke} and {@link EventEmitter#invokeAsync}
+ * that selects the first handler result that is not undefined.
+ * @example
+ * ```
+ * // The first error message returned by any validator, if any.
+ * const error = emitter.invoke("validate", [value], firstDefined);
+ * ```
+ * @param results - The results of all handlers.
+ * @returns The first result that is not undefined, or undefined if there is
+ *          none.
+ */
+export function firstDefined<Result>(
+    results: Result[]
+): Exclude<Result, undefined> | undefined {
+    for (const result of results) {
+        if (result !== undefined) {
+            return result as Exclude<Result, undefined>;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Creates a reducer for {@link EventEmitter#invoke} and
+ * {@link EventEmitter#invokeAsync} that combines all handler results into a
+ * single value, in the order the handlers were called.
+ * @example
+ * ```
+ * // The menu items contributed by all plugins.
+ * const items = emitter.invoke(
+ *     "getMenuItems",
+ *     [context],
+ *     fold((all, items) => all.concat(items || []), [] as MenuItem[])
+ * );
+ * ```
+ * @param combine - Combines the value so far with the next result.
+ * @param initialValue - The value to start with (and the value if there are
+ *        no results).
+ * @returns A reducer.
+ */
+export function fold<Result, Reduced>(
+    combine: (reduced: Reduced, result: Result) => Reduced,
+    initialValue: Reduced
+): InvokeReducer<Result, Reduced> {
+    return (results) => results.reduce(combine, initialValue);
+}
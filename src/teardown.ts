@@ -0,0 +1,39 @@
+import { CancelFunction } from "./types.private";
+
+/**
+ * An event handler with a teardown attached by {@link withTeardown}.
+ */
+interface HandlerWithTeardown {
+    teardown?: CancelFunction;
+}
+
+/**
+ * Attaches a teardown to an event handler that is subscribed on behalf of
+ * something that depends on the subscription, such as an operator (see
+ * {@link EventOperator}) or a {@link DerivedEventSource}.
+ *
+ * An {@link EventEmitter} calls the teardown when it cancels the subscription
+ * because it is disposed (or when it is subscribed to after being disposed),
+ * so that whatever depends on the subscription is torn down along with it.
+ * @param handler - An event handler created for the subscription.
+ * @param teardown - Tears down whatever depends on the subscription.
+ * @returns The same handler.
+ */
+export function withTeardown<Handler extends (...args: any[]) => unknown>(
+    handler: Handler,
+    teardown: CancelFunction
+): Handler {
+    (handler as HandlerWithTeardown).teardown = teardown;
+    return handler;
+}
+
+/**
+ * Gets the teardown attached to an event handler by {@link withTeardown}.
+ * @param handler - An event handler.
+ * @returns The teardown, if any.
+ */
+export function getTeardown(
+    handler: (...args: any[]) => unknown
+): CancelFunction | undefined {
+    return (handler as HandlerWithTeardown).teardown;
+}
@@ -0,0 +1,68 @@
+// tslint:disable:no-unused-expression
+// NOTE: import from root/index to test against publicly exported types
+import {
+    EventEmitter,
+    EventSource,
+    debounce,
+    throttle,
+    audit,
+    withPriority,
+} from ".";
+import { expectType, expectError } from "tsd";
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number, b: boolean): void;
+    bar(a: string): void;
+}
+
+const eventEmitter = new EventEmitter<Events>();
+
+// handler modifiers
+{
+    eventEmitter.subscribe({
+        foo: debounce(100, (a, b) => {
+            expectType<number>(a);
+            expectType<boolean>(b);
+        }),
+        bar: throttle(
+            100,
+            (a) => {
+                expectType<string>(a);
+            },
+            { leading: false, trailing: true }
+        ),
+    });
+
+    eventEmitter.subscribe({
+        foo: withPriority(
+            1,
+            audit(100, (a, b) => {
+                expectType<number>(a);
+                expectType<boolean>(b);
+            })
+        ),
+    });
+
+    // handler must match the event
+    expectError(
+        eventEmitter.subscribe({
+            foo: debounce(100, (a: string) => undefined),
+        })
+    );
+
+    // audit does not support leading/trailing
+    expectError(audit(100, () => undefined, { leading: true }));
+}
+
+// derived EventSources
+{
+    expectType<EventSource<Events>>(debounce(eventEmitter, "foo", 100));
+    expectType<EventSource<Events>>(
+        throttle(eventEmitter, "foo", 100, { leading: false })
+    );
+    expectType<EventSource<Events>>(audit(eventEmitter, "bar", 100));
+
+    expectError(debounce(eventEmitter, "broken", 100));
+    expectError(throttle(eventEmitter, "foo", "100"));
+}
@@ -0,0 +1,414 @@
+import { EventEmitter } from "./EventEmitter";
+import { debounce, throttle, audit } from "./timing";
+import { withPriority } from "./withPriority";
+import { Clock } from "./types.private";
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number): void;
+    bar(): void;
+}
+
+interface ScheduledCall {
+    readonly time: number;
+    readonly callback: () => void;
+}
+
+// Manually advanced Clock for testing
+class TestClock implements Clock {
+    private time: number = 0;
+    private scheduledCalls: ScheduledCall[] = [];
+
+    public get pendingCount(): number {
+        return this.scheduledCalls.length;
+    }
+
+    public setTimeout(callback: () => void, delay: number): unknown {
+        const scheduledCall = { time: this.time + delay, callback };
+        this.scheduledCalls.push(scheduledCall);
+        return scheduledCall;
+    }
+
+    public clearTimeout(handle: unknown): void {
+        this.scheduledCalls = this.scheduledCalls.filter(
+            (scheduledCall) => scheduledCall !== handle
+        );
+    }
+
+    public advance(duration: number): void {
+        const endTime = this.time + duration;
+        let next = this.getNextCall(endTime);
+
+        while (next) {
+            this.time = next.time;
+            this.clearTimeout(next);
+            next.callback();
+            next = this.getNextCall(endTime);
+        }
+
+        this.time = endTime;
+    }
+
+    private getNextCall(endTime: number): ScheduledCall | undefined {
+        return this.scheduledCalls
+            .filter((scheduledCall) => scheduledCall.time <= endTime)
+            .sort((a, b) => a.time - b.time)[0];
+    }
+}
+
+describe("debounce()", () => {
+    test("Calls the handler with the latest arguments after a quiet period", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({ foo: debounce(100, foo, { clock }) });
+
+        emitter.emit.foo(1);
+        clock.advance(50);
+        emitter.emit.foo(2);
+        clock.advance(99);
+        expect(foo).not.toHaveBeenCalled();
+
+        clock.advance(1);
+        expect(foo.mock.calls).toEqual([[2]]);
+    });
+
+    test("leading option", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({
+            foo: debounce(100, foo, { leading: true, trailing: false, clock }),
+        });
+
+        emitter.emit.foo(1);
+        emitter.emit.foo(2);
+        clock.advance(100);
+        emitter.emit.foo(3);
+
+        expect(foo.mock.calls).toEqual([[1], [3]]);
+    });
+
+    test("leading and trailing options", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({
+            foo: debounce(100, foo, { leading: true, clock }),
+        });
+
+        emitter.emit.foo(1);
+        clock.advance(100);
+        emitter.emit.foo(2);
+        emitter.emit.foo(3);
+        clock.advance(100);
+
+        expect(foo.mock.calls).toEqual([[1], [2], [3]]);
+    });
+
+    test("Cancelling the subscription clears the pending timer", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        const cancel = emitter.subscribe({
+            foo: debounce(100, foo, { clock }),
+        });
+
+        emitter.emit.foo(1);
+        cancel();
+
+        expect(clock.pendingCount).toBe(0);
+        clock.advance(100);
+        expect(foo).not.toHaveBeenCalled();
+    });
+
+    test("Disposing the emitter clears the pending timer", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({ foo: debounce(100, foo, { clock }) });
+
+        emitter.emit.foo(1);
+        emitter.dispose();
+
+        expect(clock.pendingCount).toBe(0);
+        clock.advance(100);
+        expect(foo).not.toHaveBeenCalled();
+    });
+
+    test("Creates a derived EventSource", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const derived = debounce(emitter, "foo", 100, { clock });
+
+        const first = jest.fn();
+        const second = jest.fn();
+        const bar = jest.fn();
+        const cancel = derived.on("foo", first);
+        derived.on("foo", second);
+        derived.on("bar", bar);
+
+        emitter.emit.foo(1);
+        emitter.emit.bar();
+        cancel();
+        emitter.emit.foo(2);
+        clock.advance(100);
+
+        expect(first).not.toHaveBeenCalled();
+        expect(second.mock.calls).toEqual([[2]]);
+        expect(bar).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("throttle()", () => {
+    test("Calls the handler at most once per period, with leading and trailing calls", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({ foo: throttle(100, foo, { clock }) });
+
+        emitter.emit.foo(1);
+        emitter.emit.foo(2);
+        emitter.emit.foo(3);
+        expect(foo.mock.calls).toEqual([[1]]);
+
+        clock.advance(100);
+        expect(foo.mock.calls).toEqual([[1], [3]]);
+
+        // The trailing call started a new period
+        emitter.emit.foo(4);
+        expect(foo.mock.calls).toEqual([[1], [3]]);
+
+        clock.advance(100);
+        expect(foo.mock.calls).toEqual([[1], [3], [4]]);
+
+        clock.advance(100);
+        emitter.emit.foo(5);
+        expect(foo.mock.calls).toEqual([[1], [3], [4], [5]]);
+    });
+
+    test("leading: false", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({
+            foo: throttle(100, foo, { leading: false, clock }),
+        });
+
+        emitter.emit.foo(1);
+        emitter.emit.foo(2);
+        expect(foo).not.toHaveBeenCalled();
+
+        clock.advance(100);
+        expect(foo.mock.calls).toEqual([[2]]);
+    });
+
+    test("trailing: false", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({
+            foo: throttle(100, foo, { trailing: false, clock }),
+        });
+
+        emitter.emit.foo(1);
+        emitter.emit.foo(2);
+        clock.advance(100);
+        emitter.emit.foo(3);
+
+        expect(foo.mock.calls).toEqual([[1], [3]]);
+    });
+
+    test("Cancelling the subscription clears the pending timer", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const cancel = emitter.subscribe({
+            foo: throttle(100, jest.fn(), { clock }),
+        });
+
+        emitter.emit.foo(1);
+        cancel();
+
+        expect(clock.pendingCount).toBe(0);
+    });
+
+    test("Creates a derived EventSource", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        throttle(emitter, "foo", 100, { clock }).on("foo", foo);
+
+        emitter.emit.foo(1);
+        emitter.emit.foo(2);
+        clock.advance(100);
+
+        expect(foo.mock.calls).toEqual([[1], [2]]);
+    });
+
+    test("A derived EventSource discards its trailing call when the upstream emitter is disposed", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        throttle(emitter, "foo", 100, { clock }).on("foo", foo);
+
+        emitter.emit.foo(1);
+        emitter.emit.foo(2);
+        emitter.dispose();
+        clock.advance(100);
+
+        expect(foo.mock.calls).toEqual([[1]]);
+        expect(clock.pendingCount).toBe(0);
+    });
+});
+
+describe("audit()", () => {
+    test("Calls the handler with the latest arguments after a wait that is not restarted", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        emitter.subscribe({ foo: audit(100, foo, { clock }) });
+
+        emitter.emit.foo(1);
+        clock.advance(50);
+        emitter.emit.foo(2);
+        clock.advance(50);
+        expect(foo.mock.calls).toEqual([[2]]);
+
+        emitter.emit.foo(3);
+        clock.advance(100);
+        expect(foo.mock.calls).toEqual([[2], [3]]);
+    });
+
+    test("Cancelling the subscription clears the pending timer", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const cancel = emitter.subscribe({
+            foo: audit(100, jest.fn(), { clock }),
+        });
+
+        emitter.emit.foo(1);
+        cancel();
+
+        expect(clock.pendingCount).toBe(0);
+    });
+
+    test("Creates a derived EventSource", () => {
+        const emitter = new EventEmitter<Events>();
+        const clock = new TestClock();
+        const foo = jest.fn();
+        audit(emitter, "foo", 100, { clock }).on("foo", foo);
+
+        emitter.emit.foo(1);
+        emitter.emit.foo(2);
+        clock.advance(100);
+
+        expect(foo.mock.calls).toEqual([[2]]);
+    });
+});
+
+test("Errors of delayed calls are passed to onError", async () => {
+    const emitter = new EventEmitter<Events>();
+    const clock = new TestClock();
+    const onError = jest.fn();
+    const error = new Error("Oops!");
+    const rejection = new Error("Rejected!");
+
+    emitter.subscribe({
+        foo: debounce(
+            100,
+            () => {
+                throw error;
+            },
+            { clock, onError }
+        ),
+    });
+    emitter.subscribe({
+        foo: audit(
+            100,
+            async () => {
+                throw rejection;
+            },
+            { clock, onError }
+        ),
+    });
+
+    emitter.emit.foo(1);
+    expect(() => clock.advance(100)).not.toThrow();
+    await Promise.resolve();
+
+    expect(onError.mock.calls).toEqual([
+        [error, [1]],
+        [rejection, [1]],
+    ]);
+});
+
+test("Errors of delayed calls are logged to console.error by default", () => {
+    const consoleError = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => undefined);
+    const emitter = new EventEmitter<Events>();
+    const clock = new TestClock();
+    const error = new Error("Oops!");
+
+    try {
+        emitter.subscribe({
+            foo: throttle(
+                100,
+                () => {
+                    throw error;
+                },
+                { clock, leading: false }
+            ),
+        });
+
+        emitter.emit.foo(1);
+        clock.advance(100);
+
+        expect(consoleError).toHaveBeenCalledTimes(1);
+        expect(consoleError.mock.calls[0][1]).toBe(error);
+    } finally {
+        consoleError.mockRestore();
+    }
+});
+
+test("Uses the global timers by default", () => {
+    jest.useFakeTimers();
+
+    try {
+        const emitter = new EventEmitter<Events>();
+        const foo = jest.fn();
+        emitter.subscribe({ foo: debounce(100, foo) });
+
+        emitter.emit.foo(1);
+        jest.advanceTimersByTime(100);
+
+        expect(foo.mock.calls).toEqual([[1]]);
+    } finally {
+        jest.useRealTimers();
+    }
+});
+
+test("Can be combined with withPriority()", () => {
+    const emitter = new EventEmitter<Events>();
+    const clock = new TestClock();
+    const calls: string[] = [];
+
+    emitter.on("foo", () => {
+        calls.push("normal");
+    });
+    emitter.subscribe({
+        foo: withPriority(
+            10,
+            throttle(
+                100,
+                () => {
+                    calls.push("throttled");
+                },
+                { clock }
+            )
+        ),
+    });
+    emitter.emit.foo(1);
+
+    expect(calls).toEqual(["throttled", "normal"]);
+});
@@ -0,0 +1,402 @@
+import { DerivedEventSource } from "./DerivedEventSource";
+import { setTimer, clearTimer, logError } from "./globals";
+import {
+    AnyEventFunction,
+    AnyEventHandler,
+    Clock,
+    DebounceOptions,
+    EventOperator,
+    EventsConstraint,
+    EventSource,
+    EventNames,
+    OperatorEventHandler,
+    ThrottleOptions,
+    TimingOptions,
+} from "./types.private";
+
+/**
+ * Default {@link Clock}, which uses the global `setTimeout()` and
+ * `clearTimeout()`.
+ */
+const defaultClock: Clock = {
+    setTimeout: setTimer,
+    clearTimeout: clearTimer,
+};
+
+/**
+ * Default {@link TimingOptions#onError}, which logs the error.
+ * @param error - The error thrown by (or the rejection of) the handler.
+ */
+function reportDelayedError(error: unknown): void {
+    logError("Error in delayed event handler:", error);
+}
+
+/**
+ * Wraps the `deliver` callback of an operator for calls from a timer, where
+ * an error thrown by the handler would be uncaught, and a rejection would be
+ * unhandled. Both are passed to `onError` instead.
+ * @param deliver - Calls the downstream handler.
+ * @param onError - Receives errors of the handler.
+ * @returns A function that calls `deliver` and reports its errors.
+ */
+function deliverLater(
+    deliver: (args: unknown[]) => void | Promise<void>,
+    onError: (error: unknown, args: unknown[]) => void
+): (args: unknown[]) => void {
+    return (args) => {
+        let result: void | Promise<void>;
+
+        try {
+            result = deliver(args);
+        } catch (error) {
+            onError(error, args);
+            return;
+        }
+
+        if (result && typeof result.then === "function") {
+            result.then(undefined, (error) => onError(error, args));
+        }
+    };
+}
+
+/**
+ * A timer of a {@link Clock} that can be restarted and cancelled.
+ */
+class Timer {
+    private readonly clock: Clock;
+    private handle: unknown;
+    private isActive: boolean = false;
+
+    public constructor(clock: Clock) {
+        this.clock = clock;
+    }
+
+    public get active(): boolean {
+        return this.isActive;
+    }
+
+    /**
+     * Starts the timer, cancelling it first if it is active.
+     * @param callback - Called when the timer expires.
+     * @param delay - The delay, in milliseconds.
+     */
+    public start(callback: () => void, delay: number): void {
+        this.cancel();
+        this.isActive = true;
+        this.handle = this.clock.setTimeout(() => {
+            this.isActive = false;
+            callback();
+        }, delay);
+    }
+
+    public cancel(): void {
+        if (this.isActive) {
+            this.isActive = false;
+            this.clock.clearTimeout(this.handle);
+        }
+    }
+}
+
+/**
+ * The arguments of a time-based operator: either those of an event handler
+ * modifier, or those of a derived EventSource.
+ */
+type TimingArgs<Events extends EventsConstraint<Events>, Options> =
+    | [number, AnyEventHandler, Options?]
+    | [EventSource<Events>, EventNames<Events>, number, Options?];
+
+/**
+ * Tests whether the arguments of a time-based operator are those of an event
+ * handler modifier.
+ */
+function isHandlerModifierArgs<
+    Events extends EventsConstraint<Events>,
+    Options
+>(
+    args: TimingArgs<Events, Options>
+): args is [number, AnyEventHandler, Options?] {
+    return typeof args[0] === "number";
+}
+
+/**
+ * Applies a time-based operator either as a handler modifier, or to create
+ * a derived EventSource, depending on the arguments.
+ */
+function applyOperator<
+    Events extends EventsConstraint<Events>,
+    Options extends TimingOptions
+>(
+    args: TimingArgs<Events, Options>,
+    createOperator: (wait: number, options?: Options) => EventOperator
+): OperatorEventHandler<AnyEventFunction> | EventSource<Events> {
+    if (isHandlerModifierArgs(args)) {
+        const [wait, handler, options] = args;
+        return {
+            type: "operator",
+            operator: createOperator(wait, options),
+            handler,
+        };
+    } else {
+        const [source, eventName, wait, options] = args;
+        return new DerivedEventSource<Events, Events>(
+            source,
+            eventName,
+            createOperator(wait, options)
+        );
+    }
+}
+
+function createDebounceOperator(
+    wait: number,
+    {
+        leading = false,
+        trailing = true,
+        clock = defaultClock,
+        onError = reportDelayedError,
+    }: DebounceOptions = {}
+): EventOperator {
+    return (deliver) => {
+        const timer = new Timer(clock);
+        const deliverDelayed = deliverLater(deliver, onError);
+        let pendingArgs: unknown[] | undefined;
+
+        return {
+            next: (args) => {
+                const isQuiet = !timer.active;
+
+                timer.start(() => {
+                    const lastArgs = pendingArgs;
+                    pendingArgs = undefined;
+
+                    if (lastArgs) {
+                        deliverDelayed(lastArgs);
+                    }
+                }, wait);
+
+                if (isQuiet && leading) {
+                    pendingArgs = undefined;
+                    return deliver(args);
+                }
+
+                pendingArgs = trailing ? args : undefined;
+            },
+            dispose: () => {
+                timer.cancel();
+                pendingArgs = undefined;
+            },
+        };
+    };
+}
+
+function createThrottleOperator(
+    wait: number,
+    {
+        leading = true,
+        trailing = true,
+        clock = defaultClock,
+        onError = reportDelayedError,
+    }: ThrottleOptions = {}
+): EventOperator {
+    return (deliver) => {
+        const timer = new Timer(clock);
+        const deliverDelayed = deliverLater(deliver, onError);
+        let pendingArgs: unknown[] | undefined;
+
+        const endPeriod = (): void => {
+            const lastArgs = pendingArgs;
+            pendingArgs = undefined;
+
+            if (lastArgs) {
+                // A trailing call starts a new period
+                timer.start(endPeriod, wait);
+                deliverDelayed(lastArgs);
+            }
+        };
+
+        return {
+            next: (args) => {
+                if (timer.active) {
+                    pendingArgs = trailing ? args : undefined;
+                    return;
+                }
+
+                timer.start(endPeriod, wait);
+
+                if (leading) {
+                    return deliver(args);
+                }
+
+                pendingArgs = trailing ? args : undefined;
+            },
+            dispose: () => {
+                timer.cancel();
+                pendingArgs = undefined;
+            },
+        };
+    };
+}
+
+function createAuditOperator(
+    wait: number,
+    { clock = defaultClock, onError = reportDelayedError }: TimingOptions = {}
+): EventOperator {
+    return (deliver) => {
+        const timer = new Timer(clock);
+        const deliverDelayed = deliverLater(deliver, onError);
+        let pendingArgs: unknown[] = [];
+
+        return {
+            next: (args) => {
+                pendingArgs = args;
+
+                if (!timer.active) {
+                    timer.start(() => deliverDelayed(pendingArgs), wait);
+                }
+            },
+            dispose: () => {
+                timer.cancel();
+            },
+        };
+    };
+}
+
+/**
+ * Delays calls to an event handler until the event has not been emitted for
+ * `wait` milliseconds, then calls the handler with the latest arguments.
+ *
+ * Use as an event handler modifier with {@link EventSource#subscribe}, or to
+ * create an {@link EventSource} with one event debounced for every
+ * subscription.
+ *
+ * Errors thrown by (and rejections of) the handler when it is called after a
+ * delay are passed to the `onError` option (see {@link TimingOptions}).
+ * @param wait - The quiet period, in milliseconds.
+ * @param handler - An event handler implementation.
+ * @param options - Options for debouncing.
+ * @returns A wrapped event handler that will be debounced.
+ * @example
+ * ```
+ * source.subscribe({
+ *     textChanged: debounce(300, (text) => {
+ *         // called 300ms after the user stops typing
+ *     }),
+ * });
+ *
+ * const debouncedSource = debounce(source, "textChanged", 300);
+ * ```
+ */
+export function debounce<F extends AnyEventHandler>(
+    wait: number,
+    handler: F,
+    options?: DebounceOptions
+): OperatorEventHandler<F>;
+/**
+ * @param source - The EventSource to derive from.
+ * @param eventName - The name of the event to debounce.
+ * @param wait - The quiet period, in milliseconds.
+ * @param options - Options for debouncing.
+ * @returns A new EventSource that subscribes to `source` only while it has
+ *          subscribers.
+ */
+export function debounce<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    wait: number,
+    options?: DebounceOptions
+): EventSource<Events>;
+export function debounce<Events extends EventsConstraint<Events>>(
+    ...args: TimingArgs<Events, DebounceOptions>
+): OperatorEventHandler<AnyEventFunction> | EventSource<Events> {
+    return applyOperator(args, createDebounceOperator);
+}
+
+/**
+ * Limits calls to an event handler to at most one per `wait` milliseconds.
+ * By default, the handler is called immediately for the first emit of a
+ * period, and again at the end of the period with the latest arguments if
+ * the event was emitted again during the period.
+ *
+ * Use as an event handler modifier with {@link EventSource#subscribe}, or to
+ * create an {@link EventSource} with one event throttled for every
+ * subscription.
+ *
+ * Errors thrown by (and rejections of) the handler when it is called after a
+ * delay are passed to the `onError` option (see {@link TimingOptions}).
+ * @param wait - The period, in milliseconds.
+ * @param handler - An event handler implementation.
+ * @param options - Options for throttling.
+ * @returns A wrapped event handler that will be throttled.
+ */
+export function throttle<F extends AnyEventHandler>(
+    wait: number,
+    handler: F,
+    options?: ThrottleOptions
+): OperatorEventHandler<F>;
+/**
+ * @param source - The EventSource to derive from.
+ * @param eventName - The name of the event to throttle.
+ * @param wait - The period, in milliseconds.
+ * @param options - Options for throttling.
+ * @returns A new EventSource that subscribes to `source` only while it has
+ *          subscribers.
+ */
+export function throttle<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    wait: number,
+    options?: ThrottleOptions
+): EventSource<Events>;
+export function throttle<Events extends EventsConstraint<Events>>(
+    ...args: TimingArgs<Events, ThrottleOptions>
+): OperatorEventHandler<AnyEventFunction> | EventSource<Events> {
+    return applyOperator(args, createThrottleOperator);
+}
+
+/**
+ * When an event is emitted, waits `wait` milliseconds, then calls the event
+ * handler with the latest arguments. Emits during the wait do not restart it.
+ *
+ * Use as an event handler modifier with {@link EventSource#subscribe}, or to
+ * create an {@link EventSource} with one event audited for every
+ * subscription.
+ *
+ * Errors thrown by (and rejections of) the handler when it is called after a
+ * delay are passed to the `onError` option (see {@link TimingOptions}).
+ * @param wait - The wait, in milliseconds.
+ * @param handler - An event handler implementation.
+ * @param options - Options for auditing.
+ * @returns A wrapped event handler that will be audited.
+ */
+export function audit<F extends AnyEventHandler>(
+    wait: number,
+    handler: F,
+    options?: TimingOptions
+): OperatorEventHandler<F>;
+/**
+ * @param source - The EventSource to derive from.
+ * @param eventName - The name of the event to audit.
+ * @param wait - The wait, in milliseconds.
+ * @param options - Options for auditing.
+ * @returns A new EventSource that subscribes to `source` only while it has
+ *          subscribers.
+ */
+export function audit<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>
+>(
+    source: EventSource<Events>,
+    eventName: EventName,
+    wait: number,
+    options?: TimingOptions
+): EventSource<Events>;
+export function audit<Events extends EventsConstraint<Events>>(
+    ...args: TimingArgs<Events, TimingOptions>
+): OperatorEventHandler<AnyEventFunction> | EventSource<Events> {
+    return applyOperator(args, createAuditOperator);
+}
@@ -0,0 +1,54 @@
+// tslint:disable:no-unused-expression
+// NOTE: import from root/index to test against publicly exported types
+import {
+    EventEmitter,
+    Trace,
+    Tracer,
+    createConsoleTracer,
+    setGlobalTracer,
+} from ".";
+import { expectType, expectError } from "tsd";
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number, b: boolean): void;
+    bar(a: string): void;
+}
+
+// emitter tracer
+{
+    new EventEmitter<Events>({
+        label: "test",
+        tracer: (trace) => {
+            expectType<Trace<Events>>(trace);
+
+            if (trace.type === "emit") {
+                expectType<"foo" | "bar">(trace.eventName);
+                expectType<[a: number, b: boolean] | [a: string]>(trace.args);
+                expectType<number | undefined>(trace.parentId);
+                expectType<number>(trace.duration);
+            } else {
+                expectType<"subscribe" | "cancel">(trace.type);
+                expectType<"foo" | "bar" | undefined>(trace.eventName);
+            }
+        },
+    });
+    expectError(
+        new EventEmitter<Events>({ label: 42 })
+    );
+}
+
+// global tracer
+{
+    setGlobalTracer(undefined);
+    setGlobalTracer(createConsoleTracer());
+    setGlobalTracer(
+        createConsoleTracer({
+            log: (message, trace) => {
+                expectType<string>(message);
+                expectType<string | undefined>(trace.label);
+            },
+        })
+    );
+    expectType<Tracer>(createConsoleTracer());
+}
@@ -0,0 +1,271 @@
+import { EventEmitter } from "./EventEmitter";
+import { createConsoleTracer, setGlobalTracer } from "./tracing";
+import { EmitTrace, Trace } from "./types.private";
+
+// Sample Events interface for testing
+interface Events {
+    foo(a: number, b: boolean): void;
+    bar(): void;
+}
+
+/**
+ * Creates a tracer that collects all traces.
+ * @returns The tracer, and the traces it has received so far.
+ */
+function createCollectingTracer(): {
+    tracer: (trace: Trace<Events>) => void;
+    traces: Trace<Events>[];
+} {
+    const traces: Trace<Events>[] = [];
+    return { tracer: (trace) => traces.push(trace), traces };
+}
+
+/**
+ * Gets only the emit traces from a list of traces.
+ * @param traces - All traces.
+ * @returns The emit traces.
+ */
+function emitTraces(traces: Trace<Events>[]): EmitTrace<Events>[] {
+    return traces.filter(
+        (trace): trace is EmitTrace<Events> => trace.type === "emit"
+    );
+}
+
+describe("Tracing", () => {
+    afterEach(() => {
+        setGlobalTracer(undefined);
+    });
+
+    test("Traces emits", () => {
+        const { tracer, traces } = createCollectingTracer();
+        const emitter = new EventEmitter<Events>({ label: "test", tracer });
+        emitter.on("foo", jest.fn());
+        emitter.onAny(jest.fn());
+        traces.length = 0;
+
+        emitter.emit.foo(42, true);
+        emitter.emit.bar();
+
+        expect(traces).toEqual([
+            {
+                type: "emit",
+                label: "test",
+                id: expect.any(Number),
+                parentId: undefined,
+                depth: 0,
+                eventName: "foo",
+                args: [42, true],
+                handlerCount: 2,
+                async: false,
+                duration: expect.any(Number),
+            },
+            expect.objectContaining({
+                eventName: "bar",
+                args: [],
+                handlerCount: 1,
+            }),
+        ]);
+        expect((traces[1] as EmitTrace<Events>).id).toBeGreaterThan(
+            (traces[0] as EmitTrace<Events>).id
+        );
+    });
+
+    test("Traces the parent of nested emits of any emitter", () => {
+        const { tracer, traces } = createCollectingTracer();
+        const emitter = new EventEmitter<Events>({ tracer });
+        const otherEmitter = new EventEmitter<Events>({ tracer });
+        emitter.on("foo", () => otherEmitter.emit.bar());
+        otherEmitter.on("bar", () => emitter.emit.bar());
+
+        emitter.emit.foo(42, true);
+
+        // Each emit is traced after its nested emits
+        const [innerBar, outerBar, foo] = emitTraces(traces);
+        expect(foo).toMatchObject({ eventName: "foo", depth: 0 });
+        expect(foo.parentId).toBeUndefined();
+        expect(outerBar).toMatchObject({ parentId: foo.id, depth: 1 });
+        expect(innerBar).toMatchObject({ parentId: outerBar.id, depth: 2 });
+
+        // The next emit is not nested
+        emitter.emit.bar();
+        expect(emitTraces(traces)[3].parentId).toBeUndefined();
+    });
+
+    test("Traces async emits after their handlers complete", async () => {
+        const { tracer, traces } = createCollectingTracer();
+        const emitter = new EventEmitter<Events>({ tracer });
+        let resolveHandler: () => void = () => undefined;
+        emitter.on(
+            "bar",
+            () =>
+                new Promise<void>((resolve) => {
+                    resolveHandler = resolve;
+                })
+        );
+        traces.length = 0;
+
+        const promise = emitter.emitAsync.bar();
+        expect(traces).toEqual([]);
+
+        resolveHandler();
+        await promise;
+
+        expect(traces).toEqual([
+            expect.objectContaining({
+                type: "emit",
+                eventName: "bar",
+                handlerCount: 1,
+                async: true,
+            }),
+        ]);
+    });
+
+    test("Traces emits queued while paused when they are delivered", () => {
+        const { tracer, traces } = createCollectingTracer();
+        const emitter = new EventEmitter<Events>({ tracer });
+
+        emitter.pause();
+        emitter.emit.bar();
+        expect(traces).toEqual([]);
+
+        emitter.resume();
+        expect(traces).toEqual([
+            expect.objectContaining({ type: "emit", eventName: "bar" }),
+        ]);
+    });
+
+    test("Traces subscriptions and cancellations", () => {
+        const { tracer, traces } = createCollectingTracer();
+        const emitter = new EventEmitter<Events>({ label: "test", tracer });
+
+        const cancelFoo = emitter.on("foo", jest.fn());
+        emitter.on("foo", jest.fn());
+        const cancelAny = emitter.onAny(jest.fn());
+        cancelFoo();
+        cancelAny();
+
+        expect(traces).toEqual([
+            {
+                type: "subscribe",
+                label: "test",
+                eventName: "foo",
+                handlerCount: 1,
+            },
+            {
+                type: "subscribe",
+                label: "test",
+                eventName: "foo",
+                handlerCount: 2,
+            },
+            {
+                type: "subscribe",
+                label: "test",
+                eventName: undefined,
+                handlerCount: 1,
+            },
+            {
+                type: "cancel",
+                label: "test",
+                eventName: "foo",
+                handlerCount: 1,
+            },
+            {
+                type: "cancel",
+                label: "test",
+                eventName: undefined,
+                handlerCount: 0,
+            },
+        ]);
+    });
+
+    test("The global tracer traces all emitters", () => {
+        const { tracer, traces } = createCollectingTracer();
+        const emitter = new EventEmitter<Events>({ label: "before" });
+        setGlobalTracer(tracer);
+        const otherEmitter = new EventEmitter<Events>({
+            label: "after",
+            tracer,
+        });
+
+        emitter.emit.bar();
+        otherEmitter.emit.bar();
+        setGlobalTracer(undefined);
+        emitter.emit.bar();
+
+        // A tracer that is also the emitter's tracer receives each trace once
+        expect(traces).toEqual([
+            expect.objectContaining({ label: "before" }),
+            expect.objectContaining({ label: "after" }),
+        ]);
+    });
+
+    test("Emitters are traced by their own tracer and the global tracer", () => {
+        const { tracer, traces } = createCollectingTracer();
+        const globalTracer = jest.fn();
+        setGlobalTracer(globalTracer);
+        const emitter = new EventEmitter<Events>({ tracer });
+
+        emitter.emit.bar();
+
+        expect(traces).toHaveLength(1);
+        expect(globalTracer).toHaveBeenCalledWith(traces[0]);
+    });
+});
+
+describe("createConsoleTracer()", () => {
+    test("Logs a readable message for each trace", () => {
+        const log = jest.fn();
+        const emitter = new EventEmitter<Events>({
+            label: "test",
+            tracer: createConsoleTracer({ log }),
+        });
+        const cancel = emitter.on("foo", () => emitter.emit.bar());
+        emitter.onAny(jest.fn());
+
+        emitter.emit.foo(42, true);
+        cancel();
+
+        const messages = log.mock.calls.map(([message]) =>
+            message.replace(/in [\d.e-]+ms/, "in Xms")
+        );
+        expect(messages).toEqual([
+            '[test] subscribe "foo": 1 handler',
+            "[test] subscribe all events: 1 handler",
+            expect.stringMatching(
+                /^\[test\] #\d+ emit "bar" \(nested in #\d+\): 1 handler in Xms$/
+            ),
+            expect.stringMatching(
+                /^\[test\] #\d+ emit "foo": 2 handlers in Xms$/
+            ),
+            '[test] cancel "foo": 0 handlers',
+        ]);
+
+        // The trace is logged along with the message
+        expect(log.mock.calls[0][1]).toEqual({
+            type: "subscribe",
+            label: "test",
+            eventName: "foo",
+            handlerCount: 1,
+        });
+    });
+
+    test("Logs to console.log by default", () => {
+        const consoleLog = jest
+            .spyOn(console, "log")
+            .mockImplementation(() => undefined);
+        const emitter = new EventEmitter<Events>({
+            tracer: createConsoleTracer(),
+        });
+
+        try {
+            emitter.on("bar", jest.fn());
+
+            expect(consoleLog).toHaveBeenCalledTimes(1);
+            expect(consoleLog.mock.calls[0][0]).toBe(
+                'subscribe "bar": 1 handler'
+            );
+        } finally {
+            consoleLog.mockRestore();
+        }
+    });
+});
@@ -1,25 +1,57 @@
+/// <reference lib="es2018.asynciterable" />
+
 /**
  * General/shared types for this project.
  * This file's exports are private to the project.
  * Some exports are made public by being re-exported in `types.public.ts`.
  */
 
+declare global {
+    interface SymbolConstructor {
+        /**
+         * The well-known symbol of the method that disposes an object, as
+         * used by TypeScript `using` declarations.
+         * Declared here for compatibility with TypeScript versions whose
+         * libs do not declare it.
+         */
+        readonly dispose: unique symbol;
+    }
+}
+
 /**
  * A general function signature type for any valid event signature.
- * A function with any arguments whose return type is void (because return
- * value of event handlers are ignored).
+ * A function with any arguments. Its return type is usually void (because
+ * emits ignore the return values of event handlers), but an event may declare
+ * a return type for its handlers to return, which is collected by
+ * {@link EventEmitter#invoke}.
  */
 export type AnyEventFunction = (...args: any) => void;
 
+/**
+ * A general function signature type for any method of
+ * {@link EventEmitter#emitAsync}.
+ */
+export type AnyAsyncEventFunction = (...args: any) => Promise<void>;
+
 /**
  * Converts an EventFunction type to an EventHandler type by changing
- * the return type to allow `Promise<void>`.
+ * the return type to allow `Promise<void>` (see {@link EventHandlerResult}).
  * This allows for handlers to be implemented as async functions.
  * @typeParam EventFunction - an Event function (see {@link AnyEventFunction}).
  */
 export type EventHandler<EventFunction extends AnyEventFunction> = (
     ...args: Parameters<EventFunction>
-) => void | Promise<void>;
+) => EventHandlerResult<EventFunction>;
+
+/**
+ * The return type of an EventHandler: `void` or `Promise<void>`, or the return
+ * type of the event, which is collected by {@link EventEmitter#invoke}.
+ * @typeParam EventFunction - an Event function (see {@link AnyEventFunction}).
+ */
+export type EventHandlerResult<EventFunction extends AnyEventFunction> =
+    | ReturnType<EventFunction>
+    | void
+    | Promise<void>;
 
 /**
  * A general function signature type for any valid event handler signature.
@@ -45,6 +77,171 @@ export interface OnceEventHandler<EventFunction extends AnyEventFunction> {
     handler: EventHandler<EventFunction>;
 }
 
+/**
+ * Wrapper around an EventHandler to indicate that its event should be passed
+ * through an {@link EventOperator} (e.g., see {@link debounce}).
+ * @typeParam EventFunction - an Event function (see {@link AnyEventFunction}).
+ */
+export interface OperatorEventHandler<EventFunction extends AnyEventFunction> {
+    /**
+     * Marker to identify this as an OperatorEventHandler.
+     */
+    type: "operator";
+    /**
+     * The operator to pass the event through.
+     */
+    operator: EventOperator;
+    /**
+     * The underlying EventHandler.
+     */
+    handler: EventHandler<EventFunction>;
+}
+
+/**
+ * Wrapper around an EventHandler (or {@link OnceEventHandler} or
+ * {@link OperatorEventHandler}) to indicate the priority of its subscription
+ * (see {@link SubscriptionOptions#priority}).
+ * @typeParam EventFunction - an Event function (see {@link AnyEventFunction}).
+ */
+export interface PrioritizedEventHandler<
+    EventFunction extends AnyEventFunction
+> {
+    /**
+     * Marker to identify this as a PrioritizedEventHandler.
+     */
+    type: "priority";
+    /**
+     * The priority of the subscription.
+     */
+    priority: number;
+    /**
+     * The underlying EventHandler (or OnceEventHandler or OperatorEventHandler).
+     */
+    handler:
+        | EventHandler<EventFunction>
+        | OnceEventHandler<EventFunction>
+        | OperatorEventHandler<EventFunction>;
+}
+
+/**
+ * Options for subscribing to an event.
+ */
+export interface SubscriptionOptions {
+    /**
+     * Handlers with higher priority are called before handlers with lower
+     * priority when an event is emitted. Handlers of equal priority are called
+     * in the order they were subscribed.
+     * Default: 0
+     */
+    priority?: number;
+
+    /**
+     * When this signal is aborted, the subscription is cancelled.
+     * If the signal is already aborted, no subscription is made.
+     */
+    signal?: AbortSignalLike;
+}
+
+/**
+ * Options for creating a {@link SubscriptionGroup}.
+ */
+export interface SubscriptionGroupOptions {
+    /**
+     * When this signal is aborted, the group is cancelled.
+     * If the signal is already aborted, the group is created cancelled.
+     */
+    signal?: AbortSignalLike;
+}
+
+/**
+ * Options for waiting for an event with {@link EventSource#onceAsPromise} or
+ * {@link EventSource#waitFor}.
+ * When a wait ends for any reason, all of its subscriptions are cancelled.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export interface WaitOptions<Events extends EventsConstraint<Events>> {
+    /**
+     * When this signal is aborted, the wait is cancelled and the Promise is
+     * rejected with the signal's abort reason.
+     */
+    signal?: AbortSignalLike;
+
+    /**
+     * Time, in milliseconds, after which the wait is cancelled and the Promise
+     * is rejected with a {@link TimeoutError}.
+     */
+    timeout?: number;
+
+    /**
+     * Name of an event (e.g., an "error" event) that cancels the wait when it
+     * is emitted first. The Promise is rejected with an
+     * {@link EventRejectionError}.
+     */
+    rejectOn?: EventNames<Events>;
+}
+
+/**
+ * What to do when an event is emitted while the buffer of an iteration
+ * created by {@link EventSource#iterate} is full:
+ * - "drop-oldest": Discard the oldest buffered event to make room.
+ * - "drop-newest": Discard the newly emitted event.
+ * - "throw": End the iteration with a {@link BufferOverflowError}, which is
+ *   thrown after the buffered events have been consumed.
+ */
+export type BufferOverflowStrategy = "drop-oldest" | "drop-newest" | "throw";
+
+/**
+ * Options for iterating over an event with {@link EventSource#iterate}.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export interface IterateOptions<Events extends EventsConstraint<Events>> {
+    /**
+     * Maximum number of emitted events to buffer while they are not being
+     * consumed.
+     * Default: Infinity
+     */
+    bufferSize?: number;
+
+    /**
+     * What to do when an event is emitted while the buffer is full.
+     * Default: "throw"
+     */
+    overflow?: BufferOverflowStrategy;
+
+    /**
+     * Name of an event that ends the iteration (after all buffered events
+     * have been consumed) when it is emitted.
+     */
+    endOn?: EventNames<Events>;
+
+    /**
+     * When this signal is aborted, the iteration ends by throwing the
+     * signal's abort reason (after all buffered events have been consumed).
+     */
+    signal?: AbortSignalLike;
+}
+
+/**
+ * The minimal subset of the standard `AbortSignal` interface that is used by
+ * this library. Any standard `AbortSignal` (DOM or Node.js) satisfies this
+ * interface.
+ */
+export interface AbortSignalLike {
+    /**
+     * True if the signal has been aborted.
+     */
+    readonly aborted: boolean;
+
+    /**
+     * The reason the signal was aborted, if any.
+     */
+    readonly reason?: unknown;
+
+    addEventListener(type: "abort", listener: () => void): void;
+
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
 /**
  * Used as a constraint for template parameters that are expected to be an
  * Events interface.
@@ -66,25 +263,754 @@ export type EventNames<Events extends EventsConstraint<Events>> = Extract<
     string | symbol
 >;
 
+/**
+ * A union of tuples of an event name and the arguments of that event, for all
+ * events of an Events interface.
+ * This is a discriminated union: checking the event name (first element)
+ * narrows the type of the arguments (second element).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ * @example
+ * ```
+ * declare const event: EventNameAndArgs<{
+ *     foo(a: number): void;
+ *     bar(b: string, c: boolean): void;
+ * }>;
+ *
+ * // event: ["foo", [number]] | ["bar", [string, boolean]]
+ * if (event[0] === "bar") {
+ *     // event[1]: [string, boolean]
+ * }
+ * ```
+ */
+export type EventNameAndArgs<Events extends EventsConstraint<Events>> = [
+    EventNames<Events>
+] extends [never]
+    ? // An Events interface without any events is a special case, so that
+      // `EventSource<{}>` (used as a constraint for "any EventSource") is
+      // compatible with the `onAny()` method of all other EventSources.
+      [string | symbol, unknown[]]
+    : {
+          [P in EventNames<Events>]: [P, Parameters<Events[P]>];
+      }[EventNames<Events>];
+
+/**
+ * Signature of a handler that is subscribed to all events of an Events
+ * interface (see {@link EventSource#onAny}).
+ * The handler receives the event name and a tuple of the event's arguments.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export type AnyEventHandlerOf<Events extends EventsConstraint<Events>> = (
+    ...event: EventNameAndArgs<Events>
+) => void | Promise<void>;
+
+/**
+ * A union of tuples of the parameters of an {@link EmitInterceptor}, for all
+ * events of an Events interface: the event name, the arguments of the emit,
+ * and a function to continue the emit.
+ * This is a discriminated union: checking the event name (first element)
+ * narrows the types of the other elements.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export type InterceptedEmit<Events extends EventsConstraint<Events>> = [
+    EventNames<Events>
+] extends [never]
+    ? [string | symbol, unknown[], (args?: unknown[]) => void]
+    : {
+          [P in EventNames<Events>]: [
+              P,
+              Parameters<Events[P]>,
+              (args?: Parameters<Events[P]>) => void
+          ];
+      }[EventNames<Events>];
+
+/**
+ * Intercepts every emit of an {@link EventEmitter} (see
+ * {@link EventEmitter#use}), before the emit is delivered.
+ *
+ * The interceptor receives the event name, the arguments of the emit, and a
+ * `next` function that continues the emit (with the next interceptor, if
+ * any). Call `next()` to continue with the same arguments, or `next(args)` to
+ * continue with different arguments. Not calling `next` vetoes the emit, so
+ * that it is not delivered to any handlers. Calls of `next` after the first
+ * are ignored.
+ *
+ * `next` must be called before the interceptor returns, so that the emit is
+ * delivered (and its errors are thrown, or the Promise returned by
+ * {@link EventEmitter#emitAsync} settled) as part of the emitter's call.
+ * Calling `next` later (e.g., after an async check) throws an
+ * {@link InterceptorNextError}, and the emit is not delivered.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ * @example
+ * ```
+ * emitter.use((...emit) => {
+ *     // Check the event name to narrow the type of the arguments.
+ *     if (emit[0] === "nameChanged") {
+ *         const [newName, oldName] = emit[1];
+ *         emit[2]([newName.trim(), oldName]);
+ *     } else {
+ *         emit[2]();
+ *     }
+ * });
+ * ```
+ */
+export type EmitInterceptor<Events extends EventsConstraint<Events>> = (
+    ...emit: InterceptedEmit<Events>
+) => void;
+
+/**
+ * Changes the arguments of a single event of an Events interface
+ * (see {@link map} and {@link filter}).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ * @typeParam EventName - The name of the event to change.
+ * @typeParam Args - The new tuple of arguments of the event.
+ */
+export type MapEvent<
+    Events extends EventsConstraint<Events>,
+    EventName extends EventNames<Events>,
+    Args extends unknown[]
+> = {
+    [P in keyof Events]: P extends EventName
+        ? (...args: Args) => void
+        : Events[P];
+};
+
+/**
+ * The state of an event operator for a single downstream subscription
+ * (see {@link EventOperator}).
+ */
+export interface EventOperatorSubscription {
+    /**
+     * Called with the arguments of every upstream emit of the event.
+     * @param args - The arguments of the upstream emit.
+     * @returns The result of the downstream handler, if it was called.
+     */
+    next(args: unknown[]): void | Promise<void>;
+
+    /**
+     * Called when the downstream subscription is cancelled.
+     */
+    dispose?(): void;
+}
+
+/**
+ * Implementation of an operator that transforms a single event of an
+ * {@link EventSource}. Called once for every downstream subscription.
+ * @param deliver - Calls the downstream handler with the specified arguments.
+ * @param complete - Cancels the downstream subscription.
+ * @returns The state of the operator for the downstream subscription.
+ */
+export type EventOperator = (
+    deliver: (args: unknown[]) => void | Promise<void>,
+    complete: () => void
+) => EventOperatorSubscription;
+
+/**
+ * Schedules the delayed calls of time-based operators (see {@link debounce},
+ * {@link throttle} and {@link audit}).
+ * Inject a custom Clock to control time in tests.
+ */
+export interface Clock {
+    /**
+     * Calls a function after a delay.
+     * @param callback - The function to call.
+     * @param delay - The delay, in milliseconds.
+     * @returns A handle that can be passed to {@link Clock#clearTimeout}.
+     */
+    setTimeout(callback: () => void, delay: number): unknown;
+
+    /**
+     * Cancels a call scheduled with {@link Clock#setTimeout}.
+     * @param handle - The handle returned by `setTimeout()`.
+     */
+    clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Options for time-based operators (see {@link audit}).
+ */
+export interface TimingOptions {
+    /**
+     * Schedules delayed calls.
+     * Default: A Clock that uses the global `setTimeout()` and `clearTimeout()`.
+     */
+    clock?: Clock;
+
+    /**
+     * Receives errors thrown by (and rejections of) the handler when it is
+     * called after a delay, where there is no emit to handle them.
+     * Errors of handlers that are called immediately are handled by the
+     * emit, as usual.
+     * Default: Logs the error with `console.error()`.
+     * @param error - The error thrown by (or the rejection of) the handler.
+     * @param args - The arguments the handler was called with.
+     */
+    onError?: (error: unknown, args: unknown[]) => void;
+}
+
+/**
+ * Options for {@link debounce}.
+ */
+export interface DebounceOptions extends TimingOptions {
+    /**
+     * Call the handler immediately for the first emit after a quiet period.
+     * Default: false
+     */
+    leading?: boolean;
+
+    /**
+     * Call the handler with the latest arguments at the end of a quiet period.
+     * Default: true
+     */
+    trailing?: boolean;
+}
+
+/**
+ * Options for {@link throttle}.
+ */
+export interface ThrottleOptions extends TimingOptions {
+    /**
+     * Call the handler immediately for the first emit of a period.
+     * Default: true
+     */
+    leading?: boolean;
+
+    /**
+     * Call the handler with the latest arguments at the end of a period in
+     * which the event was emitted again.
+     * Default: true
+     */
+    trailing?: boolean;
+}
+
+/**
+ * Converts an Events interface to an interface of emit methods that return
+ * nothing (see {@link EventEmitter#emit}), even for events that declare a
+ * return type, because emits ignore the return values of event handlers (see
+ * {@link EventEmitter#invoke} to collect them).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export type EmitEvents<Events extends EventsConstraint<Events>> = {
+    readonly [P in EventNames<Events>]: (
+        ...args: Parameters<Events[P]>
+    ) => void;
+};
+
+/**
+ * Converts an Events interface to an interface of emit methods that return a
+ * Promise (see {@link EventEmitter#emitAsync}).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export type AsyncEvents<Events extends EventsConstraint<Events>> = {
+    readonly [P in EventNames<Events>]: (
+        ...args: Parameters<Events[P]>
+    ) => Promise<void>;
+};
+
+/**
+ * The type of each handler result collected by {@link EventEmitter#invoke}:
+ * the return type of the event, or undefined for handlers that do not return
+ * anything (such as handlers that only observe the event).
+ * @typeParam EventFunction - an Event function (see {@link AnyEventFunction}).
+ */
+export type InvokeResult<EventFunction extends AnyEventFunction> =
+    | ReturnType<EventFunction>
+    | undefined;
+
+/**
+ * The type of each handler result collected by
+ * {@link EventEmitter#invokeAsync}: the return type of the event, unwrapped
+ * if it is a Promise, or undefined for handlers that do not return anything.
+ * @typeParam EventFunction - an Event function (see {@link AnyEventFunction}).
+ */
+export type InvokeAsyncResult<EventFunction extends AnyEventFunction> =
+    | (ReturnType<EventFunction> extends PromiseLike<infer Result>
+          ? Result
+          : ReturnType<EventFunction>)
+    | undefined;
+
+/**
+ * Combines the handler results collected by {@link EventEmitter#invoke} or
+ * {@link EventEmitter#invokeAsync} into a single value.
+ * See {@link firstDefined} and {@link fold}.
+ * @typeParam Result - The type of each handler result.
+ * @typeParam Reduced - The type of the combined value.
+ * @param results - The results of all handlers, in the order the handlers
+ *        were called.
+ * @returns The combined value.
+ */
+export type InvokeReducer<Result, Reduced> = (results: Result[]) => Reduced;
+
+/**
+ * Determines how {@link EventEmitter#emitAsync} calls event handlers.
+ * - "parallel": All handlers are called immediately, then all of their
+ *   returned Promises are awaited together.
+ * - "serial": Each handler is called only after the Promise returned by the
+ *   previous handler has settled.
+ */
+export type AsyncEmitMode = "parallel" | "serial";
+
+/**
+ * Determines what happens to events emitted while an {@link EventEmitter} is
+ * paused (see {@link EventEmitter#pause}).
+ * - "queue": Emits are queued, then delivered in order when resumed.
+ * - "drop": Emits are discarded.
+ */
+export type PauseMode = "queue" | "drop";
+
+/**
+ * Determines when an {@link EventEmitter} delivers an event that is emitted
+ * by a handler while another event (or the same event) is being delivered by
+ * {@link EventEmitter#emit}.
+ * - "nested": The event is delivered immediately (depth-first), before the
+ *   remaining handlers of the event that is being delivered are called.
+ * - "queue": The event is queued, then delivered after all handlers of the
+ *   event that is being delivered have been called (breadth-first). All
+ *   handlers therefore see events in the order they were emitted.
+ */
+export type ReentrancyMode = "nested" | "queue";
+
+/**
+ * Determines how multiple emits of the same event during a batch (see
+ * {@link EventEmitter#batch}) are delivered when the batch ends.
+ * - "all": Every emit is delivered.
+ * - "first": Only the first emit is delivered.
+ * - "last": Only the last emit is delivered.
+ * - A reducer function: Combines the arguments of the previous emit(s) with
+ *   the arguments of the next emit, and the result is delivered once.
+ * A coalesced emit is delivered at the position of the first emit of the event
+ * within the batch.
+ * @typeParam EventFunction - an Event function (see {@link AnyEventFunction}).
+ */
+export type CoalesceStrategy<EventFunction extends AnyEventFunction> =
+    | "all"
+    | "first"
+    | "last"
+    | ((
+          previous: Parameters<EventFunction>,
+          next: Parameters<EventFunction>
+      ) => Parameters<EventFunction>);
+
+/**
+ * Determines what happens to the emits of a batch (see
+ * {@link EventEmitter#batch}) when the batch function throws.
+ * - "flush": Emits are delivered before the error is rethrown.
+ * - "discard": Emits are discarded.
+ */
+export type BatchErrorPolicy = "flush" | "discard";
+
 /**
  * Interface of event handlers that can be supplied to {@link EventSource#subscribe}
  * to subscribe to multiple events at once.
  * Each property name must be a valid event name, and each property value
  * must be a valid event handler for that event name.
  * This interface also allows for special {@link OnceEventHandler} wrappers
- * around event handler functions to indicate a one-time handler.
+ * around event handler functions to indicate a one-time handler,
+ * {@link OperatorEventHandler} wrappers to indicate a debounced/throttled/audited
+ * handler, and {@link PrioritizedEventHandler} wrappers to indicate the
+ * priority of a handler.
  * @typeParam Events - an Events interface (see {@link EventsConstraint}).
  */
 export type EventHandlers<Events extends EventsConstraint<Events>> = {
     [P in EventNames<Events>]:
         | EventHandler<Events[P]>
-        | OnceEventHandler<Events[P]>;
+        | OnceEventHandler<Events[P]>
+        | OperatorEventHandler<Events[P]>
+        | PrioritizedEventHandler<Events[P]>;
 };
 
 /**
  * Callback function used to cancel a subscription.
  */
-export type SubscriptionCanceller = () => void;
+export type CancelFunction = () => void;
+
+/**
+ * Callback function used to cancel a subscription.
+ * It is also a disposable (see `Symbol.dispose`), so a subscription can be
+ * held by a TypeScript `using` declaration to be cancelled when it goes out
+ * of scope.
+ */
+export interface SubscriptionCanceller {
+    (): void;
+    /**
+     * Cancels the subscription.
+     */
+    [Symbol.dispose](): void;
+}
+
+/**
+ * Determines what happens when an {@link EventEmitter} is used after it was
+ * disposed (see {@link EventEmitter#dispose}).
+ * - "ignore": Emits do nothing, and subscribing returns a canceller that
+ *   does nothing.
+ * - "throw": Emitting or subscribing throws a {@link DisposedError}.
+ *
+ * In both cases, waiting for an event (e.g., {@link EventSource#onceAsPromise})
+ * is rejected with a {@link DisposedError}, and iterating an event (see
+ * {@link EventSource#iterate}) ends immediately.
+ */
+export type AfterDisposeBehavior = "ignore" | "throw";
+
+/**
+ * Determines how an {@link EventEmitter} handles errors thrown by event
+ * handlers while emitting an event.
+ * In all cases, every handler of the event is called, even if an earlier
+ * handler throws.
+ * - "rethrow-first": After all handlers are called, the first error is rethrown
+ *   to the code that emitted the event.
+ * - "aggregate": After all handlers are called, an
+ *   {@link EventHandlerAggregateError} containing all errors is thrown to the
+ *   code that emitted the event.
+ * - "report": Each error is passed to the
+ *   [onHandlerError]{@link EventEmitterOptions#onHandlerError} callback, and
+ *   nothing is thrown to the code that emitted the event.
+ */
+export type HandlerErrorPolicy = "rethrow-first" | "aggregate" | "report";
+
+/**
+ * Callback function used to report an error thrown by an event handler.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ * @param error - The error thrown by the event handler.
+ * @param eventName - The name of the event that was being emitted.
+ * @param args - The arguments the event was emitted with.
+ */
+export type HandlerErrorReporter<Events extends EventsConstraint<Events>> = (
+    error: unknown,
+    eventName: EventNames<Events>,
+    args: Parameters<Events[EventNames<Events>]>
+) => void;
+
+/**
+ * Details of a possible listener leak detected by an {@link EventEmitter} (see
+ * {@link EventEmitterOptions#maxListeners}).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export interface ListenerLeakWarning<Events extends EventsConstraint<Events>> {
+    /**
+     * The name of the event that has too many handlers.
+     */
+    readonly eventName: EventNames<Events>;
+    /**
+     * The number of handlers subscribed to the event.
+     */
+    readonly count: number;
+    /**
+     * The configured maximum number of handlers per event.
+     */
+    readonly maxListeners: number;
+    /**
+     * Stack traces of where each of the event's subscriptions was created,
+     * in the order the handlers are called. Only available if enabled by
+     * [captureSubscriptionStacks]{@link EventEmitterOptions#captureSubscriptionStacks}.
+     */
+    readonly stacks?: string[];
+}
+
+/**
+ * Callback function used to report a possible listener leak.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ * @param warning - Details of the possible leak.
+ */
+export type ListenerLeakReporter<Events extends EventsConstraint<Events>> = (
+    warning: ListenerLeakWarning<Events>
+) => void;
+
+/**
+ * Traces an emit delivered by an {@link EventEmitter} (see {@link Tracer}).
+ * Reported after all handlers have been called (and, for
+ * {@link EventEmitter#emitAsync}, have completed).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export interface EmitTrace<Events extends EventsConstraint<Events>> {
+    readonly type: "emit";
+    /**
+     * The [label]{@link EventEmitterOptions#label} of the emitter, if any.
+     */
+    readonly label: string | undefined;
+    /**
+     * Identifies the emit, unique across all emitters.
+     */
+    readonly id: number;
+    /**
+     * The `id` of the emit whose handler (of any emitter) emitted this event,
+     * or undefined if this emit is not nested.
+     */
+    readonly parentId: number | undefined;
+    /**
+     * The number of emits this emit is nested in.
+     */
+    readonly depth: number;
+    /**
+     * The name of the emitted event.
+     */
+    readonly eventName: EventNames<Events>;
+    /**
+     * The arguments the event was emitted with.
+     */
+    readonly args: Parameters<Events[EventNames<Events>]>;
+    /**
+     * The number of handlers the emit was delivered to, including handlers
+     * subscribed to all events via {@link EventSource#onAny}.
+     */
+    readonly handlerCount: number;
+    /**
+     * True if the event was emitted with {@link EventEmitter#emitAsync}.
+     */
+    readonly async: boolean;
+    /**
+     * How long delivering the emit took, in milliseconds.
+     */
+    readonly duration: number;
+}
+
+/**
+ * Traces a subscription being added to, or cancelled from, an
+ * {@link EventEmitter} (see {@link Tracer}).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export interface SubscriptionTrace<Events extends EventsConstraint<Events>> {
+    readonly type: "subscribe" | "cancel";
+    /**
+     * The [label]{@link EventEmitterOptions#label} of the emitter, if any.
+     */
+    readonly label: string | undefined;
+    /**
+     * The name of the subscribed event, or undefined for a subscription to
+     * all events via {@link EventSource#onAny}.
+     */
+    readonly eventName: EventNames<Events> | undefined;
+    /**
+     * The number of subscriptions to the event (or to all events) afterwards.
+     */
+    readonly handlerCount: number;
+}
+
+/**
+ * Anything traced by an {@link EventEmitter} (see {@link Tracer}).
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export type Trace<Events extends EventsConstraint<Events>> =
+    | EmitTrace<Events>
+    | SubscriptionTrace<Events>;
+
+/**
+ * Callback function that receives everything an {@link EventEmitter} does,
+ * for debugging and developer tools.
+ * See {@link EventEmitterOptions#tracer}, {@link setGlobalTracer} and
+ * {@link createConsoleTracer}.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ * @param trace - Details of what was done.
+ */
+export type Tracer<Events extends EventsConstraint<Events> = any> = (
+    trace: Trace<Events>
+) => void;
+
+/**
+ * Options for {@link createConsoleTracer}.
+ */
+export interface ConsoleTracerOptions {
+    /**
+     * Receives a readable message for each trace, along with the trace
+     * itself (e.g., to forward both to a structured logger).
+     * Default: Logs both with `console.log()`.
+     */
+    log?: (message: string, trace: Trace<any>) => void;
+}
+
+/**
+ * Callbacks that are called when an {@link EventEmitter} (or one of its events)
+ * changes between having and not having any subscribers.
+ * This allows an event source to lazily setup costly resources only while
+ * somebody is subscribed.
+ *
+ * All subscriptions count, regardless of how they were created
+ * (`on()`, `once()`, `onceAsPromise()`, `subscribe()`). A subscription ends
+ * when it is cancelled, including the automatic cancellation of one-time handlers.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export interface SubscriberLifecycleHooks<
+    Events extends EventsConstraint<Events>
+> {
+    /**
+     * Called when an event gains its first subscriber.
+     * @param eventName - The name of the event.
+     */
+    onFirstSubscriber?(eventName: EventNames<Events>): void;
+    /**
+     * Called when the last subscription to an event is cancelled.
+     * @param eventName - The name of the event.
+     */
+    onLastUnsubscriber?(eventName: EventNames<Events>): void;
+    /**
+     * Called when the emitter gains its first subscriber to any event.
+     * Called before `onFirstSubscriber`.
+     */
+    onActivated?(): void;
+    /**
+     * Called when the last subscription to any event is cancelled.
+     * Called after `onLastUnsubscriber`.
+     */
+    onDeactivated?(): void;
+}
+
+/**
+ * Configuration options for an {@link EventEmitter}.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export interface EventEmitterOptions<Events extends EventsConstraint<Events>>
+    extends SubscriberLifecycleHooks<Events> {
+    /**
+     * How errors thrown by event handlers are handled.
+     * See {@link HandlerErrorPolicy}.
+     * Default: "rethrow-first"
+     */
+    handlerErrorPolicy?: HandlerErrorPolicy;
+    /**
+     * Receives errors thrown by event handlers when `handlerErrorPolicy` is
+     * "report". Also receives rejections of async event handlers, unless
+     * `onHandlerRejection` is provided.
+     * Default: Logs the error with `console.error()`.
+     */
+    onHandlerError?: HandlerErrorReporter<Events>;
+    /**
+     * Receives rejections of Promises returned by async event handlers when
+     * the event was emitted via {@link EventEmitter#emit}, which does not wait
+     * for async handlers to complete.
+     * (Rejections while emitting via {@link EventEmitter#emitAsync} are instead
+     * handled according to `handlerErrorPolicy`.)
+     * Default: Same as `onHandlerError`.
+     */
+    onHandlerRejection?: HandlerErrorReporter<Events>;
+    /**
+     * How {@link EventEmitter#emitAsync} calls event handlers.
+     * See {@link AsyncEmitMode}.
+     * Default: "parallel"
+     */
+    asyncEmitMode?: AsyncEmitMode;
+    /**
+     * Enables replay of recent emits for specific events, keyed by event
+     * name, with the number of most recent emits to remember for each event.
+     * Remembered emits are delivered to each new subscriber of the event
+     * (via `on()`, `once()`, `subscribe()`, etc.) immediately when subscribing,
+     * in the order they were emitted. One-shot subscriptions (via `once()`,
+     * `onceAsPromise()`, and `waitFor()`) only receive the most recent
+     * remembered emit instead. If it does not satisfy the predicate of
+     * `waitFor()`, the wait continues until a new emit does.
+     * Subscriptions to all events (via `onAny()`) do not receive replayed
+     * emits.
+     * Errors thrown by handlers during replay are always passed to
+     * `onHandlerError`, regardless of `handlerErrorPolicy`.
+     * See also {@link EventEmitter#clearReplay}.
+     * @example
+     * ```
+     * // Remember the most recent emit of "configLoaded"
+     * new EventEmitter<Events>({ replay: { configLoaded: 1 } });
+     * ```
+     */
+    replay?: Partial<Record<EventNames<Events>, number>>;
+    /**
+     * What happens to events emitted while the EventEmitter is paused.
+     * See {@link PauseMode}.
+     * Default: "queue"
+     */
+    pauseMode?: PauseMode;
+    /**
+     * When events emitted by handlers during an emit are delivered.
+     * See {@link ReentrancyMode}.
+     * Default: "nested"
+     */
+    reentrancy?: ReentrancyMode;
+    /**
+     * Maximum number of nested emits of the same event, such as when a
+     * handler of an event (indirectly) emits the same event again.
+     * An emit that would exceed this depth throws an {@link EmitDepthError}
+     * naming the chain of events that caused it, instead of recursing until
+     * the stack overflows. The error is thrown to the handler that emitted
+     * the event, so it is handled by enclosing emits according to the
+     * [handlerErrorPolicy]{@link EventEmitterOptions#handlerErrorPolicy}
+     * option (i.e., rethrown or reported).
+     * With the "queue" {@link ReentrancyMode}, emits are delivered one after
+     * another rather than nested, so this limits the number of emits of the
+     * same event in a chain of emits that were each queued while delivering
+     * the previous one.
+     * Use `Infinity` to disable this check.
+     * Default: 100
+     */
+    maxEmitDepth?: number;
+    /**
+     * Maximum number of handlers that may be subscribed to any single event
+     * before a possible listener leak (e.g., forgotten
+     * {@link SubscriptionCanceller}s) is reported to `onListenerLeak`.
+     * Each event is reported at most once.
+     * Handlers subscribed to all events via {@link EventSource#onAny} are not
+     * counted.
+     * Default: Infinity (never reported)
+     */
+    maxListeners?: number;
+    /**
+     * Receives possible listener leaks (see `maxListeners`).
+     * Default: Logs a warning with `console.warn()`.
+     */
+    onListenerLeak?: ListenerLeakReporter<Events>;
+    /**
+     * Whether to capture a stack trace whenever a handler is subscribed, to
+     * include in reports of possible listener leaks (see `maxListeners`).
+     * This makes subscribing slower, so it is intended for debugging.
+     * Default: false
+     */
+    captureSubscriptionStacks?: boolean;
+    /**
+     * A name for the emitter, included in traces (see `tracer`) to tell
+     * emitters apart.
+     */
+    label?: string;
+    /**
+     * Receives a trace of each emit, subscription, and cancellation.
+     * Tracers enabled for all emitters by {@link setGlobalTracer} receive
+     * them too.
+     * Default: undefined (no tracing)
+     */
+    tracer?: Tracer<Events>;
+    /**
+     * How multiple emits of the same event during a batch are delivered,
+     * keyed by event name.
+     * See {@link CoalesceStrategy}.
+     * Default: "all" for every event
+     * @example
+     * ```
+     * new EventEmitter<Events>({
+     *     coalesce: {
+     *         changed: "last",
+     *         itemsAdded: (previous, next) => [previous[0].concat(next[0])],
+     *     },
+     * });
+     * ```
+     */
+    coalesce?: {
+        [P in EventNames<Events>]?: CoalesceStrategy<Events[P]>;
+    };
+    /**
+     * What happens to the emits of a batch when the batch function throws.
+     * See {@link BatchErrorPolicy}.
+     * Default: "flush"
+     */
+    batchErrorPolicy?: BatchErrorPolicy;
+    /**
+     * What happens when the emitter is used after it was disposed.
+     * See {@link AfterDisposeBehavior}.
+     * Default: "ignore"
+     */
+    afterDispose?: AfterDisposeBehavior;
+}
+
+/**
+ * Configuration options for a {@link WithEventEmitter}.
+ * Same as {@link EventEmitterOptions}, except that subscriber lifecycle hooks
+ * are implemented by overriding protected methods of `WithEventEmitter`.
+ * @typeParam Events - an Events interface (see {@link EventsConstraint}).
+ */
+export type WithEventEmitterOptions<
+    Events extends EventsConstraint<Events>
+> = Omit<EventEmitterOptions<Events>, keyof SubscriberLifecycleHooks<Events>>;
 
 /**
  * A source of events, which supports subscriptions to those events.
@@ -97,35 +1023,122 @@ export interface EventSource<Events extends EventsConstraint<Events>> {
      * Subscribe to a single event.
      * @param eventName - A valid event name for the Events interface.
      * @param handler - A handler function for the specified event.
+     * @param options - Options for the subscription.
      * @returns A callback function that, when called, will cancel this subscription.
      */
     on<EventName extends EventNames<Events>>(
         eventName: EventName,
-        handler: EventHandler<Events[EventName]>
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
     ): SubscriptionCanceller;
 
     /**
      * Subscribe to a single event, but only for one emit of the event.
      * @param eventName - A valid event name for the Events interface.
      * @param handler - A handler function for the specified event.
+     * @param options - Options for the subscription.
      * @returns A callback function that, when called, will cancel this subscription.
      */
     once<EventName extends EventNames<Events>>(
         eventName: EventName,
-        handler: EventHandler<Events[EventName]>
+        handler: EventHandler<Events[EventName]>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller;
+
+    /**
+     * Subscribe to all events.
+     * The handler is called with the name of the emitted event and a tuple
+     * of the event's arguments, after all handlers subscribed specifically to
+     * that event.
+     * @param handler - A handler function for all events.
+     * @param options - Options for the subscription.
+     * @returns A callback function that, when called, will cancel this subscription.
+     * @example
+     * ```
+     * source.onAny((...event) => {
+     *     // Check the event name to narrow the type of the arguments.
+     *     if (event[0] === "nameChanged") {
+     *         const [newName, oldName] = event[1];
+     *     }
+     * });
+     * ```
+     */
+    onAny(
+        handler: AnyEventHandlerOf<Events>,
+        options?: SubscriptionOptions
     ): SubscriptionCanceller;
 
     /**
      * Returns a Promise that resolves the next time the specified event is
      * emitted. The Promise value is a tuple of all arguments to the event handler.
      * @param eventName - A valid event name for the Events interface.
+     * @param options - Options for the wait.
      * @returns a Promise that resolves the next time the specified event is
-     *          emitted.
+     *          emitted, or rejects if the wait is aborted.
      */
     onceAsPromise<EventName extends EventNames<Events>>(
-        eventName: EventName
+        eventName: EventName,
+        options?: WaitOptions<Events>
     ): Promise<Parameters<EventHandler<Events[EventName]>>>;
 
+    /**
+     * Returns a Promise that resolves the next time the specified event is
+     * emitted with arguments that satisfy a predicate. The Promise value is a
+     * tuple of all arguments to the event handler, narrowed by the predicate
+     * if it is a type guard.
+     * If the predicate throws, the Promise is rejected with the error.
+     * @param eventName - A valid event name for the Events interface.
+     * @param predicate - Tests the tuple of arguments of each emit.
+     * @param options - Options for the wait.
+     * @returns a Promise that resolves the next time the specified event is
+     *          emitted with matching arguments.
+     * @example
+     * ```
+     * const [status] = await source.waitFor(
+     *     "statusChanged",
+     *     (args): args is ["ready"] => args[0] === "ready",
+     *     { timeout: 5000 }
+     * );
+     * ```
+     */
+    waitFor<
+        EventName extends EventNames<Events>,
+        Narrowed extends Parameters<EventHandler<Events[EventName]>>
+    >(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => args is Narrowed,
+        options?: WaitOptions<Events>
+    ): Promise<Narrowed>;
+    waitFor<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        predicate: (
+            args: Parameters<EventHandler<Events[EventName]>>
+        ) => boolean,
+        options?: WaitOptions<Events>
+    ): Promise<Parameters<EventHandler<Events[EventName]>>>;
+
+    /**
+     * Returns an async iterator over emits of the specified event.
+     * Every value is a tuple of all arguments to the event handler.
+     * The subscription is cancelled when the iteration ends, including when
+     * a `for await` loop is exited early.
+     * @param eventName - A valid event name for the Events interface.
+     * @param options - Options for the iteration.
+     * @returns An async iterator over emits of the event.
+     * @example
+     * ```
+     * for await (const [loaded, total] of source.iterate("progress")) {
+     *     // ...
+     * }
+     * ```
+     */
+    iterate<EventName extends EventNames<Events>>(
+        eventName: EventName,
+        options?: IterateOptions<Events>
+    ): AsyncIterableIterator<Parameters<EventHandler<Events[EventName]>>>;
+
     /**
      * Subscribe to one or more events as a single subscription.
      * This conveniently allows you to later cancel the subscription to multiple
@@ -137,9 +1150,15 @@ export interface EventSource<Events extends EventsConstraint<Events>> {
      *        NOTE: Handlers are called as standalone functions without a `this`
      *              context, so do not depend on `this` being a reference to the
      *              `handlers` object you provide here.
+     * @param options - Options that apply to every subscription. A priority
+     *        specified via {@link withPriority} takes precedence over
+     *        `options.priority`.
      * @returns A callback function that, when called, will cancel this subscription.
      */
-    subscribe(handlers: Partial<EventHandlers<Events>>): SubscriptionCanceller;
+    subscribe(
+        handlers: Partial<EventHandlers<Events>>,
+        options?: SubscriptionOptions
+    ): SubscriptionCanceller;
 }
 
 /**
@@ -151,10 +1170,11 @@ export interface EventSource<Events extends EventsConstraint<Events>> {
  * NOTE: This returns the original interface of the `Events` from the definition
  * of the `EventSource`. There is a subtle difference between the
  * `Events` type and the corresponding `EventHandlers` type:
- * - `Events`: All event signatures have a return type of `void`.
- * - `EventHandlers`: All event handler signatures have a return type
- *    of `void | Promise<void>` to support `async` event handler
- *    implementations.
+ * - `Events`: Event signatures have the return type declared by the
+ *    `Events` interface (usually `void`).
+ * - `EventHandlers`: Event handler signatures may also return `void` or
+ *    `Promise<void>`, to support handlers that do not return a result, and
+ *    `async` event handler implementations.
  *
  * @typeParam T - An {@link EventSource} type.
  */
@@ -172,10 +1192,11 @@ export type EventsType<T extends EventSource<{}>> = T extends EventSource<
  * NOTE: This does NOT return the original interface of the `Events` from the
  * definition of the `EventSource`. There is a subtle difference between the
  * `Events` type and the corresponding `EventHandlers` type:
- * - `Events`: All event signatures have a return type of `void`.
- * - `EventHandlers`: All event handler signatures have a return type
- *    of `void | Promise<void>` to support `async` event handler
- *    implementations.
+ * - `Events`: Event signatures have the return type declared by the
+ *    `Events` interface (usually `void`).
+ * - `EventHandlers`: Event handler signatures may also return `void` or
+ *    `Promise<void>`, to support handlers that do not return a result, and
+ *    `async` event handler implementations.
  *
  * @typeParam T - An {@link EventSource} type.
  * @example
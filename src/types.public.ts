@@ -7,4 +7,42 @@ export {
     EventSourceType,
     EventHandlersType,
     SubscriptionCanceller,
+    AfterDisposeBehavior,
+    SubscriptionOptions,
+    SubscriptionGroupOptions,
+    WaitOptions,
+    AbortSignalLike,
+    IterateOptions,
+    BufferOverflowStrategy,
+    EventNameAndArgs,
+    AnyEventHandlerOf,
+    InterceptedEmit,
+    EmitInterceptor,
+    HandlerErrorPolicy,
+    HandlerErrorReporter,
+    ListenerLeakWarning,
+    ListenerLeakReporter,
+    EmitTrace,
+    SubscriptionTrace,
+    Trace,
+    Tracer,
+    ConsoleTracerOptions,
+    EventEmitterOptions,
+    SubscriberLifecycleHooks,
+    WithEventEmitterOptions,
+    AsyncEmitMode,
+    PauseMode,
+    ReentrancyMode,
+    CoalesceStrategy,
+    BatchErrorPolicy,
+    EmitEvents,
+    AsyncEvents,
+    InvokeResult,
+    InvokeAsyncResult,
+    InvokeReducer,
+    MapEvent,
+    Clock,
+    TimingOptions,
+    DebounceOptions,
+    ThrottleOptions,
 } from "./types.private";
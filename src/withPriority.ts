@@ -0,0 +1,51 @@
+import {
+    AnyEventHandler,
+    OnceEventHandler,
+    OperatorEventHandler,
+    PrioritizedEventHandler,
+} from "./types.private";
+
+/**
+ * Event handler modifier for use with {@link EventSource#subscribe}.
+ * Specifies the priority of the handler's subscription
+ * (see {@link SubscriptionOptions#priority}).
+ * May be combined with {@link once} (or {@link debounce}, {@link throttle} and
+ * {@link audit}) by wrapping its result.
+ * @param priority - The priority of the subscription.
+ * @param handler - An event handler implementation, or a wrapped handler
+ *        created with `once()`, `debounce()`, `throttle()` or `audit()`.
+ * @returns A wrapped event handler that will be subscribed with the specified
+ *          priority.
+ * @example
+ * ```
+ * source.subscribe({
+ *     nameChanged: withPriority(10, (name) => {
+ *         // called before handlers with lower priority
+ *     }),
+ *     anotherEvent: withPriority(-1, once((whatever) => {
+ *         // called after handlers with higher priority, then cancelled
+ *     })),
+ * });
+ * ```
+ */
+export function withPriority<F extends AnyEventHandler>(
+    priority: number,
+    handler: F | OnceEventHandler<F> | OperatorEventHandler<F>
+): PrioritizedEventHandler<F> {
+    return {
+        type: "priority",
+        priority: priority,
+        handler: handler,
+    };
+}
+
+/**
+ * Custom type guard for {@link PrioritizedEventHandler}.
+ * @param value Any value
+ * @returns True if the value is a PrioritizedEventHandler.
+ */
+export function isPrioritizedEventHandler(
+    value: any
+): value is PrioritizedEventHandler<any> {
+    return typeof value === "object" && value.type && value.type === "priority";
+}